@@ -3,21 +3,64 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useEffect } from 'react';
-import { Mic, Upload, Sparkles, AlertTriangle, Moon, Sun } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Mic, Upload, Sparkles, AlertTriangle, Moon, Sun, FileText, Undo2, Redo2, Library, Radio, KeyRound } from 'lucide-react';
 import AudioRecorder from './components/AudioRecorder';
 import FileUploader from './components/FileUploader';
 import TranscriptionDisplay from './components/TranscriptionDisplay';
+import TranscriptImporter from './components/TranscriptImporter';
 import Button from './components/Button';
-import { transcribeAudio } from './services/geminiService';
-import { AppStatus, AudioData, TranscriptionResponse } from './types';
+import ExportMenu from './components/ExportMenu';
+import TranscriptLibrary from './components/TranscriptLibrary';
+import TabCaptureRecorder from './components/TabCaptureRecorder';
+import ApiKeySettings from './components/ApiKeySettings';
+import TranscriptionSettingsPanel from './components/TranscriptionSettingsPanel';
+import PresetBar from './components/PresetBar';
+import BatchQueue from './components/BatchQueue';
+import { useTranscriptHistory } from './hooks/useTranscriptHistory';
+import { useLiveTranscription } from './hooks/useLiveTranscription';
+import { useBatchQueue, BatchRunner } from './hooks/useBatchQueue';
+import { pinSpeakerColors } from './services/speakers';
+import { remapTimeline } from './services/transcriptEditing';
+import { createEntry, updateEntry, getEntry, getAudio, LibraryEntry } from './services/transcriptLibrary';
+import { blobToBase64, probeDuration } from './services/audioProcessing';
+import { TranscriptionValidationError } from './services/transcriptionValidator';
+import { MissingApiKeyError } from './services/apiKey';
+import { isExtension } from './services/extension/bridge';
+import { PROVIDERS, getProvider, getInitialProviderId, saveProviderId, getLiveTransport, toProviderOptions, getTranscriptAnalyzer } from './services/providers';
+import { TranscriptionSettings, loadTranscriptionSettings, saveTranscriptionSettings, toRequest } from './services/transcriptionSettings';
+import { AppStatus, AudioData, TranscriptionResponse, TranscriptionProgress } from './types';
+
+// Fields outside the transcript editor keep their own native undo.
+const isOtherEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) &&
+  !target.closest('[data-transcript-editor]');
 
 function App() {
-  const [mode, setMode] = useState<'record' | 'upload'>('record');
+  const [mode, setMode] = useState<'record' | 'upload' | 'import'>('record');
   const [status, setStatus] = useState<AppStatus>('idle');
   const [audioData, setAudioData] = useState<AudioData | null>(null);
-  const [result, setResult] = useState<TranscriptionResponse | null>(null);
+  const history = useTranscriptHistory();
+  const result = history.present;
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<TranscriptionProgress | null>(null);
+  const [providerId, setProviderId] = useState(getInitialProviderId);
+  const [view, setView] = useState<'workspace' | 'library'>('workspace');
+  const [entryId, setEntryId] = useState<string | null>(null);
+  const [liveMode, setLiveMode] = useState(false);
+  const [showApiKey, setShowApiKey] = useState(false);
+  const [transcriptionSettings, setTranscriptionSettings] = useState(loadTranscriptionSettings);
+  const providerOptions = useMemo(
+    () => toProviderOptions(getProvider(providerId), transcriptionSettings),
+    [providerId, transcriptionSettings]
+  );
+  const liveTransport = useMemo(() => getLiveTransport(getProvider(providerId), providerOptions), [providerId, providerOptions]);
+  const analyzer = useMemo(() => getTranscriptAnalyzer(getProvider(providerId), providerOptions), [providerId, providerOptions]);
+  const live = useLiveTranscription(liveTransport);
+  const isLive = liveMode && liveTransport !== null;
+  // Downloads are named after the uploaded file.
+  const baseName = audioData?.fileName?.replace(/\.[^.]+$/, '');
   
   // Initialize dark mode based on system preference
   const [isDarkMode, setIsDarkMode] = useState(() => {
@@ -38,32 +81,197 @@ function App() {
 
   const toggleDarkMode = () => setIsDarkMode(!isDarkMode);
 
+  const handleProviderChange = (id: string) => {
+    setProviderId(id);
+    saveProviderId(id);
+  };
+
+  const handleSettingsChange = (settings: TranscriptionSettings) => {
+    setTranscriptionSettings(settings);
+    saveTranscriptionSettings(settings);
+  };
+
   const handleAudioReady = (data: AudioData) => {
     setAudioData(data);
     setError(null);
-    setResult(null); // Clear previous results
+    history.reset(null); // Clear previous results
+  };
+
+  // A live recording goes straight into the final pass, which replaces the
+  // provisional segments once it finishes.
+  const handleRecordingReady = (data: AudioData) => {
+    handleAudioReady(data);
+    if (isLive) {
+      live.stop();
+      runTranscription(data);
+    }
+  };
+
+  const saveToLibrary = async (transcript: TranscriptionResponse, audio: AudioData | null): Promise<LibraryEntry> => {
+    const lastEnd = transcript.segments.reduce((max, segment) => Math.max(max, segment.endSec), 0);
+    const durationSec = (audio ? await probeDuration(audio.blob) : null) ?? lastEnd;
+    return createEntry({
+      title: audio?.fileName?.replace(/\.[^.]+$/, '') || `Recording ${new Date().toLocaleString()}`,
+      transcript,
+      durationSec,
+      sourceFileName: audio?.fileName,
+      audio: audio?.blob,
+    });
+  };
+
+  /**
+   * Shows a new transcript and saves it to the library right away, so a
+   * refresh never loses a finished job.
+   */
+  const openNewTranscript = async (response: TranscriptionResponse, audio: AudioData | null) => {
+    const transcript = pinSpeakerColors(response);
+    history.reset(transcript);
+    setEntryId(null);
+
+    try {
+      const entry = await saveToLibrary(transcript, audio);
+      setEntryId(entry.id);
+    } catch (err) {
+      console.error("Failed to save transcript to library:", err);
+    }
+  };
+
+  const handleImported = (response: TranscriptionResponse, audio: AudioData | null) => {
+    setAudioData(audio);
+    setError(null);
+    setStatus('success');
+    openNewTranscript(response, audio);
+  };
+
+  // Failures to read the entry's audio are left to the caller to report.
+  const handleOpenEntry = async (entry: LibraryEntry) => {
+    if (history.isDirty && !window.confirm("You have unsaved edits. Discard them and open another transcript?")) return;
+    const blob = await getAudio(entry.id);
+    setAudioData(blob
+      ? { blob, base64: await blobToBase64(blob), mimeType: entry.mimeType ?? blob.type, fileName: entry.sourceFileName }
+      : null);
+    history.reset(entry.transcript);
+    setEntryId(entry.id);
+    setError(null);
+    setStatus('success');
+    setView('workspace');
   };
 
-  const handleTranscribe = async () => {
-    if (!audioData) return;
+  // Batch jobs go straight to the library with whatever settings are current when they start.
+  const runBatchJob: BatchRunner = async (job, { signal, onProgress }) => {
+    const audio: AudioData = { blob: job.blob, base64: await blobToBase64(job.blob), mimeType: job.blob.type, fileName: job.fileName };
+    const data = await getProvider(providerId).transcribe(audio, { ...providerOptions, onProgress, signal });
+    const transcript = pinSpeakerColors({ ...data, translationLanguage: transcriptionSettings.targetLanguage });
+    // Cancelled during the summary step or after the last chunk; keep it out of the library.
+    signal.throwIfAborted();
+    const entry = await saveToLibrary(transcript, audio);
+    return entry.id;
+  };
+  const batch = useBatchQueue(runBatchJob);
+
+  const handleOpenBatchResult = async (id: string) => {
+    try {
+      const entry = await getEntry(id);
+      if (entry) {
+        await handleOpenEntry(entry);
+        return;
+      }
+      setError("That transcript is no longer in the library.");
+    } catch (err) {
+      console.error("Failed to open transcript:", err);
+      setError("Could not open the transcript from the library.");
+    }
+    setStatus('error');
+  };
 
+  const runTranscription = async (audio: AudioData) => {
     setStatus('processing');
     setError(null);
+    setProgress(null);
 
     try {
-      const data = await transcribeAudio(audioData.base64, audioData.mimeType);
-      setResult(data as TranscriptionResponse);
+      // Send the optimized copy when there is one; the original stays for playback and the library.
+      const prepared = audio.prepared;
+      const upload: AudioData = prepared
+        ? { blob: prepared.blob, base64: prepared.base64, mimeType: prepared.mimeType, fileName: audio.fileName }
+        : audio;
+      let data = await getProvider(providerId).transcribe(upload, { ...providerOptions, onProgress: setProgress });
+      data = { ...data, translationLanguage: transcriptionSettings.targetLanguage };
+      // The prepared copy may be cut or trimmed, so put timestamps back on the original's timeline.
+      if (prepared) data = remapTimeline(data, prepared.spans);
+      live.clear();
       setStatus('success');
+      openNewTranscript(data, audio);
     } catch (err) {
       console.error(err);
-      setError("An error occurred during transcription. Please try again.");
+      setError(err instanceof TranscriptionValidationError
+        ? `The transcription service returned an unusable response: ${err.message} Please try again.`
+        : err instanceof MissingApiKeyError
+          ? err.message
+          : "An error occurred during transcription. Please try again.");
       setStatus('error');
+    } finally {
+      setProgress(null);
     }
   };
 
+  const handleTranscribe = () => {
+    if (audioData) runTranscription(audioData);
+  };
+
+  // Undo/redo shortcuts apply to the transcript, even while typing in it.
+  useEffect(() => {
+    if (!result) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isOtherEditable(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        history.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [result, history.undo, history.redo]);
+
+  // Save edits to the library shortly after the user stops typing.
+  useEffect(() => {
+    const transcript = history.present;
+    if (!entryId || !transcript || !history.isDirty) return;
+    const timer = window.setTimeout(async () => {
+      try {
+        const saved = await updateEntry(entryId, { transcript });
+        // The entry was deleted from the library meanwhile; save the edits as a new one.
+        if (!saved) setEntryId((await saveToLibrary(transcript, audioData)).id);
+        history.markSaved(transcript);
+      } catch (err) {
+        console.error("Failed to save edits:", err);
+      }
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [entryId, audioData, history.present, history.isDirty, history.markSaved]);
+
+  // Warn before a refresh or tab close throws away edits.
+  useEffect(() => {
+    if (!history.isDirty) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [history.isDirty]);
+
+  const handleStartOver = () => {
+    if (history.isDirty && !window.confirm("You have unsaved edits. Discard them and start over?")) return;
+    handleReset();
+  };
+
   const handleReset = () => {
     setAudioData(null);
-    setResult(null);
+    history.reset(null);
+    setEntryId(null);
+    live.clear();
     setStatus('idle');
     setError(null);
   };
@@ -82,9 +290,45 @@ function App() {
             </h1>
           </div>
           <div className="flex items-center space-x-4">
-            <div className="text-sm text-slate-500 dark:text-slate-400 font-medium hidden sm:block">
-              Powered by Gemini 3 Flash Preview
-            </div>
+            <label className="text-sm text-slate-500 dark:text-slate-400 font-medium hidden sm:flex items-center">
+              <span className="mr-2">Powered by</span>
+              <select
+                value={providerId}
+                onChange={(e) => handleProviderChange(e.target.value)}
+                disabled={status === 'processing'}
+                className="bg-transparent border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1 text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                aria-label="Transcription provider"
+              >
+                {PROVIDERS.map(provider => (
+                  <option key={provider.id} value={provider.id} className="dark:bg-slate-900">
+                    {provider.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={() => setView(view === 'library' ? 'workspace' : 'library')}
+              className={`p-2 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                view === 'library'
+                  ? 'bg-indigo-50 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-300'
+                  : 'text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800'
+              }`}
+              aria-label="Transcript Library"
+              aria-pressed={view === 'library'}
+              title="Library"
+            >
+              <Library size={20} />
+            </button>
+            {isExtension() && (
+              <button
+                onClick={() => setShowApiKey(true)}
+                className="p-2 text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                aria-label="Gemini API key"
+                title="API key"
+              >
+                <KeyRound size={20} />
+              </button>
+            )}
             <button
               onClick={toggleDarkMode}
               className="p-2 text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
@@ -97,7 +341,14 @@ function App() {
       </header>
 
       <main className="max-w-3xl mx-auto px-4 sm:px-6 py-10">
-        
+
+        {view === 'library' ? (
+          <div>
+            <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-6">Library</h2>
+            <TranscriptLibrary onOpen={handleOpenEntry} activeId={entryId} />
+          </div>
+        ) : (
+        <>
         {/* Intro */}
         <div className="text-center mb-10">
           <h2 className="text-3xl font-bold text-slate-900 dark:text-white mb-4">
@@ -143,6 +394,18 @@ function App() {
                 <Upload size={16} className="mr-2" />
                 Upload File
             </button>
+            <button
+                onClick={() => { setMode('import'); handleReset(); }}
+                className={`flex-1 sm:flex-none flex items-center justify-center px-6 py-2.5 rounded-lg text-sm font-medium transition-all focus:outline-none focus:ring-2 focus:ring-offset-1 dark:focus:ring-offset-slate-900 focus:ring-indigo-500 ${
+                mode === 'import' 
+                    ? 'bg-indigo-600 text-white shadow-sm' 
+                    : 'text-slate-600 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800'
+                }`}
+                disabled={status === 'processing'}
+            >
+                <FileText size={16} className="mr-2" />
+                Import Transcript
+            </button>
             </div>
         )}
 
@@ -153,12 +416,56 @@ function App() {
           {!result && status !== 'processing' && (
             <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-800 p-6 sm:p-8 transition-colors duration-300">
               {mode === 'record' ? (
-                <AudioRecorder onAudioCaptured={handleAudioReady} disabled={status === 'processing'} />
+                <>
+                  {isExtension() && (
+                    <div className="mb-6">
+                      <TabCaptureRecorder onAudioCaptured={handleAudioReady} disabled={status === 'processing'} />
+                    </div>
+                  )}
+                  <AudioRecorder
+                    onAudioCaptured={handleRecordingReady}
+                    disabled={status === 'processing'}
+                    onRecordingStart={isLive ? live.start : undefined}
+                    onSamples={isLive ? live.push : undefined}
+                  />
+                  <label
+                    className={`mt-4 flex items-center justify-center text-sm ${liveTransport ? 'text-slate-600 dark:text-slate-300' : 'text-slate-400 dark:text-slate-500'}`}
+                    title={liveTransport ? undefined : `${getProvider(providerId).label} does not support live transcription`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={isLive}
+                      onChange={(e) => setLiveMode(e.target.checked)}
+                      disabled={!liveTransport}
+                      className="mr-2 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <Radio size={16} className="mr-1.5" />
+                    Show a live transcript while recording
+                  </label>
+                </>
+              ) : mode === 'upload' ? (
+                <FileUploader onFileSelected={handleAudioReady} onSelectionCleared={() => setAudioData(null)} onFilesQueued={batch.add} disabled={status === 'processing'} />
               ) : (
-                <FileUploader onFileSelected={handleAudioReady} disabled={status === 'processing'} />
+                <TranscriptImporter onImported={handleImported} disabled={status === 'processing'} />
+              )}
+
+              {mode !== 'import' && (
+                <div className="mt-6">
+                  <PresetBar
+                    request={toRequest(transcriptionSettings)}
+                    onApply={(request) => handleSettingsChange({ ...transcriptionSettings, ...request })}
+                    disabled={status === 'processing'}
+                  />
+                  <TranscriptionSettingsPanel
+                    settings={transcriptionSettings}
+                    onChange={handleSettingsChange}
+                    provider={getProvider(providerId)}
+                    disabled={status === 'processing'}
+                  />
+                </div>
               )}
 
-              {audioData && (
+              {audioData && mode !== 'import' && !(mode === 'record' && isLive) && (
                 <div className="mt-6 flex justify-end pt-6 border-t border-slate-100 dark:border-slate-800">
                   <Button 
                     onClick={handleTranscribe} 
@@ -173,6 +480,20 @@ function App() {
             </div>
           )}
 
+          {/* Batch Queue */}
+          {mode === 'upload' && batch.jobs.length > 0 && (
+            <BatchQueue
+              jobs={batch.jobs}
+              concurrency={batch.concurrency}
+              onConcurrencyChange={batch.setConcurrency}
+              onCancel={batch.cancel}
+              onRetry={batch.retry}
+              onRemove={batch.remove}
+              onClearFinished={batch.clearFinished}
+              onOpen={handleOpenBatchResult}
+            />
+          )}
+
           {/* Processing State */}
           {status === 'processing' && (
             <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-800 p-12 text-center transition-colors duration-300">
@@ -186,8 +507,38 @@ function App() {
               </div>
               <h3 className="text-xl font-semibold text-slate-900 dark:text-white mb-2">Analyzing Audio...</h3>
               <p className="text-slate-500 dark:text-slate-400 max-w-sm mx-auto">
-                Gemini is identifying speakers, detecting languages, and generating your transcript. This usually takes just a few seconds.
+                {getProvider(providerId).label} is identifying speakers, detecting languages, and generating your transcript. This usually takes just a few seconds.
               </p>
+              {progress && progress.total > 1 && (
+                <div className="mt-6 max-w-sm mx-auto">
+                  <div className="h-2 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-indigo-600 dark:bg-indigo-500 transition-all duration-300"
+                      style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+                    />
+                  </div>
+                  <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">
+                    Long recording: {progress.completed} of {progress.total} parts transcribed
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Live Transcript */}
+          {!result && (live.segments.length > 0 || live.error) && (
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="flex items-center text-xl font-bold text-slate-900 dark:text-white">
+                  <Radio size={20} className="mr-2 text-red-500" />
+                  Live Transcript
+                </h2>
+                <span className="text-xs text-slate-500 dark:text-slate-400">
+                  {status === 'processing' ? 'Finalizing…' : 'Provisional until you stop recording'}
+                </span>
+              </div>
+              {live.error && <p className="mb-4 text-sm text-amber-600 dark:text-amber-400">{live.error}</p>}
+              {live.segments.length > 0 && <TranscriptionDisplay data={{ summary: '', segments: live.segments, translationLanguage: transcriptionSettings.targetLanguage }} />}
             </div>
           )}
 
@@ -196,12 +547,28 @@ function App() {
             <div>
                 <div className="flex justify-between items-center mb-6">
                     <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Transcription Results</h2>
-                    <Button onClick={handleReset} variant="secondary">Start Over</Button>
+                    <div className="flex items-center space-x-3">
+                        {history.isDirty && (
+                            <span className="text-xs font-medium text-amber-600 dark:text-amber-400 hidden sm:inline">{entryId ? 'Saving…' : 'Unsaved changes'}</span>
+                        )}
+                        <div className="flex items-center">
+                            <Button variant="ghost" onClick={history.undo} disabled={!history.canUndo} aria-label="Undo" title="Undo (Ctrl+Z)" className="px-2">
+                                <Undo2 size={18} />
+                            </Button>
+                            <Button variant="ghost" onClick={history.redo} disabled={!history.canRedo} aria-label="Redo" title="Redo (Ctrl+Shift+Z)" className="px-2">
+                                <Redo2 size={18} />
+                            </Button>
+                        </div>
+                        <ExportMenu data={result} baseName={baseName} />
+                        <Button onClick={handleStartOver} variant="secondary">Start Over</Button>
+                    </div>
                 </div>
-                <TranscriptionDisplay data={result} />
+                <TranscriptionDisplay data={result} audio={audioData?.blob} onChange={history.apply} analyzer={analyzer} baseName={baseName} />
             </div>
           )}
         </div>
+        </>
+        )}
 
         {/* Disclaimer */}
         <div className="mt-16 text-center text-xs text-slate-500 dark:text-slate-400 max-w-2xl mx-auto leading-relaxed border-t border-slate-200 dark:border-slate-800 pt-8 transition-colors duration-300">
@@ -214,6 +581,8 @@ function App() {
         </div>
 
       </main>
+
+      {showApiKey && <ApiKeySettings onClose={() => setShowApiKey(false)} />}
     </div>
   );
 }
@@ -0,0 +1,287 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useMemo, useRef } from 'react';
+import { BarChart3, ChevronDown, Image as ImageIcon, FileSpreadsheet, AlertTriangle } from 'lucide-react';
+import { TranscriptionResponse } from '../types';
+import {
+  analyzeConversation, ConversationAnalytics,
+  speakersToCsv, emotionTimelineToCsv, languagesToCsv,
+} from '../services/conversationAnalytics';
+import { EMOTIONS, getEmotion } from '../services/emotions';
+import { downloadFile } from '../services/transcriptExport';
+import { formatClock } from '../utils/time';
+import { svgToPng } from '../utils/svgImage';
+
+interface AnalyticsDashboardProps {
+  data: TranscriptionResponse;
+}
+
+// Charts draw in a fixed coordinate space and scale to the card width.
+const CHART_WIDTH = 640;
+const LABEL_WIDTH = 130;
+const VALUE_WIDTH = 60;
+const ROW_HEIGHT = 28;
+const AXIS_HEIGHT = 22;
+const LEGEND_ITEM_WIDTH = 80;
+const LEGEND_ROW_HEIGHT = 18;
+// Attribute colours, since CSS classes do not survive the PNG export.
+const TEXT_COLOR = '#64748b';
+const GRID_COLOR = '#cbd5e1';
+const BAR_COLOR = '#6366f1';
+const ESCALATION_COLOR = '#ef4444';
+
+const shorten = (text: string, max = 18) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+interface ChartCardProps {
+  title: string;
+  fileName: string;
+  csv: () => string;
+  children: (svgRef: React.RefObject<SVGSVGElement | null>) => React.ReactNode;
+}
+
+const exportButtonStyles = "flex items-center px-2 py-1 rounded-md text-xs font-medium text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 hover:text-slate-900 dark:hover:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const ChartCard: React.FC<ChartCardProps> = ({ title, fileName, csv, children }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const exportPng = async () => {
+    if (!svgRef.current) return;
+    try {
+      downloadFile({ filename: `${fileName}.png`, mimeType: 'image/png', content: await svgToPng(svgRef.current) });
+    } catch (err) {
+      console.error("Chart export failed:", err);
+    }
+  };
+
+  return (
+    <div className="border border-slate-200 dark:border-slate-700 rounded-xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-slate-800 dark:text-slate-200">{title}</h3>
+        <div className="flex items-center space-x-1">
+          <button onClick={exportPng} className={exportButtonStyles} aria-label={`Download ${title} as PNG`}>
+            <ImageIcon size={14} className="mr-1" /> PNG
+          </button>
+          <button
+            onClick={() => downloadFile({ filename: `${fileName}.csv`, mimeType: 'text/csv', content: csv() })}
+            className={exportButtonStyles}
+            aria-label={`Download ${title} as CSV`}
+          >
+            <FileSpreadsheet size={14} className="mr-1" /> CSV
+          </button>
+        </div>
+      </div>
+      {children(svgRef)}
+    </div>
+  );
+};
+
+interface BarRow {
+  key: string;
+  label: string;
+  share: number;
+  color: string;
+}
+
+const BarChart = React.forwardRef<SVGSVGElement, { rows: BarRow[]; label: string }>(({ rows, label }, ref) => {
+  const barArea = CHART_WIDTH - LABEL_WIDTH - VALUE_WIDTH;
+  const height = rows.length * ROW_HEIGHT;
+  return (
+    <svg ref={ref} viewBox={`0 0 ${CHART_WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label={label}>
+      {rows.map((row, i) => {
+        const y = i * ROW_HEIGHT;
+        return (
+          <g key={row.key}>
+            <text x={0} y={y + ROW_HEIGHT / 2} dominantBaseline="middle" fontSize={12} fill={TEXT_COLOR}>{shorten(row.label)}</text>
+            <rect x={LABEL_WIDTH} y={y + 6} width={barArea} height={ROW_HEIGHT - 12} rx={4} fill={GRID_COLOR} opacity={0.35} />
+            <rect x={LABEL_WIDTH} y={y + 6} width={Math.max(2, barArea * row.share)} height={ROW_HEIGHT - 12} rx={4} fill={row.color} />
+            <text x={CHART_WIDTH} y={y + ROW_HEIGHT / 2} dominantBaseline="middle" textAnchor="end" fontSize={12} fill={TEXT_COLOR}>
+              {percent(row.share)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+});
+
+const EmotionTimeline = React.forwardRef<SVGSVGElement, { data: TranscriptionResponse; analytics: ConversationAnalytics }>(
+  ({ data, analytics }, ref) => {
+    const start = data.segments.length > 0 ? Math.min(...data.segments.map(s => s.startSec)) : 0;
+    const span = Math.max(1, analytics.durationSec);
+    const plotWidth = CHART_WIDTH - LABEL_WIDTH;
+    const toX = (sec: number) => LABEL_WIDTH + ((sec - start) / span) * plotWidth;
+    const lanesHeight = analytics.speakers.length * ROW_HEIGHT;
+    const legendY = lanesHeight + AXIS_HEIGHT + 14;
+    const ticks = Array.from({ length: 5 }, (_, i) => start + (span * i) / 4);
+    const laneOf = (speaker: string) => analytics.speakers.findIndex(s => s.name === speaker);
+    // Emotions in the transcript, in taxonomy order, wrapped onto as many legend rows as needed.
+    const legend = [...new Set([...EMOTIONS.map(emotion => emotion.label), ...data.segments.map(segment => segment.emotion)])]
+      .filter((label): label is string => !!label && data.segments.some(segment => segment.emotion === label));
+    const perLegendRow = Math.floor(CHART_WIDTH / LEGEND_ITEM_WIDTH);
+    const height = legendY + Math.ceil(legend.length / perLegendRow) * LEGEND_ROW_HEIGHT;
+
+    return (
+      <svg ref={ref} viewBox={`0 0 ${CHART_WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label="Emotion over time per speaker">
+        {ticks.map((sec, i) => (
+          <g key={i}>
+            <line x1={toX(sec)} x2={toX(sec)} y1={0} y2={lanesHeight} stroke={GRID_COLOR} strokeDasharray="2 3" />
+            <text
+              x={toX(sec)}
+              y={lanesHeight + 14}
+              fontSize={11}
+              fill={TEXT_COLOR}
+              textAnchor={i === 0 ? 'start' : i === ticks.length - 1 ? 'end' : 'middle'}
+            >
+              {formatClock(sec)}
+            </text>
+          </g>
+        ))}
+        {analytics.speakers.map((speaker, lane) => (
+          <text key={speaker.name} x={0} y={lane * ROW_HEIGHT + ROW_HEIGHT / 2} dominantBaseline="middle" fontSize={12} fill={TEXT_COLOR}>
+            {shorten(speaker.name)}
+          </text>
+        ))}
+        {data.segments.map((segment, i) => segment.emotion && (
+          <rect
+            key={i}
+            x={toX(segment.startSec)}
+            y={laneOf(segment.speaker) * ROW_HEIGHT + 6}
+            width={Math.max(2, toX(segment.endSec) - toX(segment.startSec))}
+            height={ROW_HEIGHT - 12}
+            fill={getEmotion(segment.emotion).color}
+          >
+            <title>{`${segment.speaker} · ${segment.emotion} · ${formatClock(segment.startSec)}`}</title>
+          </rect>
+        ))}
+        {analytics.emotionShifts.filter(shift => shift.escalation).map((shift, i) => {
+          const x = toX(shift.atSec);
+          const y = laneOf(shift.speaker) * ROW_HEIGHT + 5;
+          return (
+            <path key={i} d={`M ${x - 5} ${y - 5} L ${x + 5} ${y - 5} L ${x} ${y + 2} Z`} fill={ESCALATION_COLOR} stroke="#ffffff">
+              <title>{`Escalation: ${shift.speaker} went from ${shift.from} to ${shift.to} at ${formatClock(shift.atSec)}`}</title>
+            </path>
+          );
+        })}
+        {legend.map((emotion, i) => (
+          <g
+            key={emotion}
+            transform={`translate(${(i % perLegendRow) * LEGEND_ITEM_WIDTH}, ${legendY + Math.floor(i / perLegendRow) * LEGEND_ROW_HEIGHT})`}
+          >
+            <rect x={0} y={-8} width={10} height={10} rx={2} fill={getEmotion(emotion).color} />
+            <text x={14} y={1} fontSize={11} fill={TEXT_COLOR}>{emotion}</text>
+          </g>
+        ))}
+      </svg>
+    );
+  }
+);
+
+const Stat: React.FC<{ label: string; value: string; alert?: boolean }> = ({ label, value, alert }) => (
+  <div className={`rounded-xl px-4 py-3 ${alert ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300' : 'bg-slate-50 dark:bg-slate-900/50 text-slate-900 dark:text-white'}`}>
+    <p className="text-xs text-slate-500 dark:text-slate-400">{label}</p>
+    <p className="text-lg font-semibold">{value}</p>
+  </div>
+);
+
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ data }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const analytics = useMemo(() => analyzeConversation(data), [data]);
+  const escalations = analytics.emotionShifts.filter(shift => shift.escalation).length;
+  const hasEmotion = data.segments.some(segment => segment.emotion);
+
+  if (data.segments.length === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl shadow-sm transition-colors duration-300">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-6 text-left focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded-2xl"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center text-lg font-semibold text-slate-900 dark:text-white">
+          <BarChart3 size={18} className="mr-2 text-indigo-600 dark:text-indigo-400" />
+          Conversation Analytics
+        </span>
+        <span className="flex items-center space-x-3">
+          {escalations > 0 && (
+            <span className="flex items-center text-xs font-medium px-2 py-1 rounded-full bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300">
+              <AlertTriangle size={12} className="mr-1" />
+              {escalations} {escalations === 1 ? 'escalation' : 'escalations'}
+            </span>
+          )}
+          <ChevronDown size={18} className={`text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="px-6 pb-6 space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+            <Stat label="Duration" value={formatClock(analytics.durationSec)} />
+            <Stat label="Words per minute" value={String(Math.round(analytics.wordsPerMinute))} />
+            <Stat label="Turns" value={String(analytics.turns)} />
+            <Stat label="Interruptions" value={String(analytics.interruptions)} />
+            <Stat label="Escalations" value={String(escalations)} alert={escalations > 0} />
+          </div>
+
+          <ChartCard title="Talk Time" fileName="talk-time" csv={() => speakersToCsv(analytics)}>
+            {svgRef => (
+              <>
+                <BarChart
+                  ref={svgRef}
+                  label="Share of talk time per speaker"
+                  rows={analytics.speakers.map(s => ({ key: s.name, label: s.name, share: s.share, color: s.color }))}
+                />
+                <div className="overflow-x-auto mt-3">
+                  <table className="w-full text-sm text-left">
+                    <thead className="text-xs text-slate-500 dark:text-slate-400">
+                      <tr>
+                        <th className="py-1 pr-3 font-medium">Speaker</th>
+                        <th className="py-1 pr-3 font-medium text-right">Talk time</th>
+                        <th className="py-1 pr-3 font-medium text-right">Turns</th>
+                        <th className="py-1 pr-3 font-medium text-right">Interruptions</th>
+                        <th className="py-1 font-medium text-right">Words/min</th>
+                      </tr>
+                    </thead>
+                    <tbody className="text-slate-700 dark:text-slate-300">
+                      {analytics.speakers.map(s => (
+                        <tr key={s.name} className="border-t border-slate-100 dark:border-slate-700">
+                          <td className="py-1 pr-3">{s.name}</td>
+                          <td className="py-1 pr-3 text-right font-mono">{formatClock(s.talkTimeSec)}</td>
+                          <td className="py-1 pr-3 text-right">{s.turns}</td>
+                          <td className="py-1 pr-3 text-right">{s.interruptions}</td>
+                          <td className="py-1 text-right">{Math.round(s.wordsPerMinute)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </ChartCard>
+
+          {hasEmotion && (
+            <ChartCard title="Emotion Timeline" fileName="emotion-timeline" csv={() => emotionTimelineToCsv(data, analytics)}>
+              {svgRef => <EmotionTimeline ref={svgRef} data={data} analytics={analytics} />}
+            </ChartCard>
+          )}
+
+          <ChartCard title="Languages" fileName="languages" csv={() => languagesToCsv(analytics)}>
+            {svgRef => (
+              <BarChart
+                ref={svgRef}
+                label="Share of talk time per language"
+                rows={analytics.languages.map(l => ({ key: l.code, label: l.language, share: l.share, color: BAR_COLOR }))}
+              />
+            )}
+          </ChartCard>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
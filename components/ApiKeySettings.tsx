@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { KeyRound, X } from 'lucide-react';
+import Button from './Button';
+import { getApiKey, saveApiKey } from '../services/apiKey';
+
+interface ApiKeySettingsProps {
+  onClose: () => void;
+}
+
+/**
+ * Lets extension users enter their own Gemini API key, which is kept in
+ * chrome.storage on this device.
+ */
+const ApiKeySettings: React.FC<ApiKeySettingsProps> = ({ onClose }) => {
+  const [draft, setDraft] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getApiKey().then(key => setDraft(key ?? '')).catch(console.error);
+  }, []);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveApiKey(draft);
+      onClose();
+    } catch (err) {
+      console.error("Failed to save API key:", err);
+      setError("Could not save the key. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-slate-900/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-2xl shadow-xl p-6"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="api-key-title"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 id="api-key-title" className="flex items-center text-lg font-semibold text-slate-900 dark:text-white">
+            <KeyRound size={18} className="mr-2 text-indigo-600 dark:text-indigo-400" />
+            Gemini API Key
+          </h2>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200" aria-label="Close">
+            <X size={18} />
+          </button>
+        </div>
+        <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+          The key is stored only in this browser and is sent only to the Gemini API.
+        </p>
+        <input
+          type="password"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Paste your API key"
+          aria-label="Gemini API key"
+          autoFocus
+          className="w-full bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 font-mono text-sm text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        {error && <p className="text-sm text-red-600 dark:text-red-400 mt-2">{error}</p>}
+        <div className="flex justify-end space-x-3 mt-6">
+          <Button variant="secondary" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} isLoading={isSaving}>Save</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeySettings;
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Gauge, Keyboard } from 'lucide-react';
+import { AudioPlayback, PLAYBACK_RATES } from '../hooks/useAudioPlayback';
+
+interface AudioPlayerProps {
+  playback: AudioPlayback;
+}
+
+const AudioPlayer: React.FC<AudioPlayerProps> = ({ playback }) => {
+  const { audioRef, src, playbackRate, setRate } = playback;
+
+  if (!src) return null;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl p-4 shadow-sm transition-colors duration-300">
+      <audio ref={audioRef} src={src} controls preload="metadata" className="w-full" />
+      <div className="flex flex-wrap items-center justify-between gap-3 mt-3 text-xs text-slate-500 dark:text-slate-400">
+        <label className="flex items-center">
+          <Gauge size={14} className="mr-1.5" />
+          <span className="mr-2">Speed</span>
+          <select
+            value={playbackRate}
+            onChange={(e) => setRate(parseFloat(e.target.value))}
+            className="bg-transparent border border-slate-200 dark:border-slate-600 rounded px-1.5 py-0.5 text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {PLAYBACK_RATES.map(rate => (
+              <option key={rate} value={rate} className="dark:bg-slate-900">{rate}x</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex items-center">
+          <Keyboard size={14} className="mr-1.5" />
+          Space play/pause · ← → previous/next segment · − + speed
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AudioPlayer;
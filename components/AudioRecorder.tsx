@@ -4,112 +4,190 @@
 */
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Mic, Square, AlertCircle } from 'lucide-react';
+import { Mic, Square, AlertCircle, Pause, Play, AlertTriangle, VolumeX, MonitorSpeaker } from 'lucide-react';
 import Button from './Button';
 import { AudioData } from '../types';
+import { formatClock } from '../utils/time';
+import { blobToBase64 } from '../services/audioProcessing';
+import {
+  RecorderSettings, CaptureStream, CaptureError, CAPTURE_SOURCES, pickRecorderMimeType, baseMimeType,
+  listInputDevices, openCaptureStream, loadRecorderSettings, saveRecorderSettings,
+} from '../services/audioRecording';
+import { useInputLevel } from '../hooks/useInputLevel';
+import { useAudioTap } from '../hooks/useAudioTap';
 
 interface AudioRecorderProps {
   onAudioCaptured: (audioData: AudioData) => void;
   disabled?: boolean;
+  onRecordingStart?: () => void;
+  /** Receives the raw mono samples while recording, e.g. for live transcription. */
+  onSamples?: (samples: Float32Array, sampleRate: number) => void;
 }
 
-const AudioRecorder: React.FC<AudioRecorderProps> = ({ onAudioCaptured, disabled }) => {
-  const [isRecording, setIsRecording] = useState(false);
-  const [duration, setDuration] = useState(0);
+type RecorderState = 'idle' | 'recording' | 'paused';
+
+const AudioRecorder: React.FC<AudioRecorderProps> = ({ onAudioCaptured, disabled, onRecordingStart, onSamples }) => {
+  const [recorderState, setRecorderState] = useState<RecorderState>('idle');
+  const [durationMs, setDurationMs] = useState(0);
   const [error, setError] = useState<string | null>(null);
-  
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [settings, setSettings] = useState<RecorderSettings>(loadRecorderSettings);
+  const input = useInputLevel(stream, recorderState === 'recording');
+  useAudioTap(stream, recorderState === 'recording', onSamples);
+
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<number | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
+  const captureRef = useRef<CaptureStream | null>(null);
+  // Time recorded before the current run, and when the current run began.
+  const elapsedRef = useRef(0);
+  const runStartRef = useRef(0);
+
+  const isActive = recorderState !== 'idle';
+
+  const refreshDevices = useCallback(async () => {
+    try {
+      setDevices(await listInputDevices());
+    } catch (err) {
+      console.error("Could not list microphones:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshDevices();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refreshDevices);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refreshDevices);
+  }, [refreshDevices]);
+
+  const updateSettings = (patch: Partial<RecorderSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveRecorderSettings(next);
+  };
+
+  const startTimer = () => {
+    runStartRef.current = Date.now();
+    timerRef.current = window.setInterval(() => {
+      setDurationMs(elapsedRef.current + Date.now() - runStartRef.current);
+    }, 250);
+  };
+
+  const stopTimer = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const releaseStream = () => {
+    captureRef.current?.release();
+    captureRef.current = null;
+    setStream(null);
+  };
 
   const startRecording = useCallback(async () => {
     setError(null);
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
-      
-      const mediaRecorder = new MediaRecorder(stream);
+      // Sharing stopped from the browser's own bar ends the recording.
+      const capture = await openCaptureStream(settings, () => {
+        if (mediaRecorderRef.current?.state !== 'inactive') mediaRecorderRef.current?.stop();
+        setRecorderState('idle');
+        stopTimer();
+        setDurationMs(0);
+      });
+      captureRef.current = capture;
+      const { stream } = capture;
+      setStream(stream);
+      // Labels only become available once permission has been granted.
+      refreshDevices();
+
+      const mediaRecorder = new MediaRecorder(stream, { mimeType: pickRecorderMimeType() });
       mediaRecorderRef.current = mediaRecorder;
       chunksRef.current = [];
 
       mediaRecorder.ondataavailable = (e) => {
-        if (e.data.size > 0) {
-          chunksRef.current.push(e.data);
-        }
+        if (e.data.size > 0) chunksRef.current.push(e.data);
       };
 
-      mediaRecorder.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
-        const reader = new FileReader();
-        reader.readAsDataURL(blob);
-        reader.onloadend = () => {
-          const base64String = reader.result as string;
-          const base64 = base64String.split(',')[1];
-          
-          onAudioCaptured({
-            blob,
-            base64,
-            mimeType: 'audio/webm'
-          });
-        };
-        
-        // Stop all tracks
-        if (streamRef.current) {
-          streamRef.current.getTracks().forEach(track => track.stop());
-          streamRef.current = null;
-        }
+      mediaRecorder.onstop = async () => {
+        const mimeType = baseMimeType(mediaRecorder.mimeType || chunksRef.current[0]?.type || 'audio/webm');
+        const blob = new Blob(chunksRef.current, { type: mimeType });
+        releaseStream();
+        onAudioCaptured({
+          blob,
+          base64: await blobToBase64(blob),
+          mimeType,
+        });
       };
 
+      onRecordingStart?.();
       mediaRecorder.start();
-      setIsRecording(true);
-      
-      // Timer
-      const startTime = Date.now();
-      timerRef.current = window.setInterval(() => {
-        setDuration(Math.floor((Date.now() - startTime) / 1000));
-      }, 1000);
+      setRecorderState('recording');
+      elapsedRef.current = 0;
+      setDurationMs(0);
+      startTimer();
 
     } catch (err) {
-      console.error("Error accessing microphone:", err);
-      setError("Could not access microphone. Please ensure permissions are granted.");
+      console.error("Error starting capture:", err);
+      releaseStream();
+      if (err instanceof CaptureError) {
+        setError(err.message);
+      } else if (err instanceof DOMException && err.name === 'OverconstrainedError') {
+        setError("The selected microphone is no longer available. Please choose another one.");
+      } else if (err instanceof DOMException && err.name === 'NotAllowedError' && settings.source !== 'microphone') {
+        setError("Tab sharing was cancelled or blocked.");
+      } else {
+        setError("Could not access microphone. Please ensure permissions are granted.");
+      }
     }
-  }, [onAudioCaptured]);
+  }, [settings, refreshDevices, onAudioCaptured, onRecordingStart]);
+
+  const pauseRecording = () => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state !== 'recording') return;
+    recorder.pause();
+    stopTimer();
+    elapsedRef.current += Date.now() - runStartRef.current;
+    setDurationMs(elapsedRef.current);
+    setRecorderState('paused');
+  };
+
+  const resumeRecording = () => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state !== 'paused') return;
+    recorder.resume();
+    startTimer();
+    setRecorderState('recording');
+  };
 
   const stopRecording = useCallback(() => {
-    if (mediaRecorderRef.current && isRecording) {
+    if (mediaRecorderRef.current && isActive) {
       mediaRecorderRef.current.stop();
-      setIsRecording(false);
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-        timerRef.current = null;
-      }
-      setDuration(0);
+      setRecorderState('idle');
+      stopTimer();
+      setDurationMs(0);
     }
-  }, [isRecording]);
+  }, [isActive]);
 
   useEffect(() => {
     return () => {
       if (timerRef.current) clearInterval(timerRef.current);
-      if (streamRef.current) streamRef.current.getTracks().forEach(track => track.stop());
+      captureRef.current?.release();
     };
   }, []);
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-  };
+  const meterPercent = Math.min(100, Math.sqrt(input.level) * 140);
 
   return (
     <div className="flex flex-col items-center justify-center p-8 bg-white dark:bg-slate-800 border-2 border-dashed border-indigo-100 dark:border-slate-700 rounded-2xl transition-colors duration-300">
-      <div className={`relative flex items-center justify-center w-24 h-24 mb-6 rounded-full transition-all duration-300 ${isRecording ? 'bg-red-50 dark:bg-red-900/20' : 'bg-indigo-50 dark:bg-indigo-900/30'}`}>
-        {isRecording && (
+      <div className={`relative flex items-center justify-center w-24 h-24 mb-6 rounded-full transition-all duration-300 ${isActive ? 'bg-red-50 dark:bg-red-900/20' : 'bg-indigo-50 dark:bg-indigo-900/30'}`}>
+        {recorderState === 'recording' && (
           <span className="absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-20 animate-ping"></span>
         )}
-        {isRecording ? (
+        {isActive ? (
             <div className="text-red-500 dark:text-red-400">
-                <Mic size={40} className="animate-pulse" />
+                <Mic size={40} className={recorderState === 'recording' ? 'animate-pulse' : ''} />
             </div>
         ) : (
             <div className="text-indigo-500 dark:text-indigo-400">
@@ -119,10 +197,12 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onAudioCaptured, disabled
       </div>
 
       <div className="text-center mb-6">
-        {isRecording ? (
+        {isActive ? (
           <div>
-            <h3 className="text-lg font-semibold text-slate-800 dark:text-white">Recording...</h3>
-            <p className="text-3xl font-mono text-slate-600 dark:text-slate-300 mt-2">{formatTime(duration)}</p>
+            <h3 className="text-lg font-semibold text-slate-800 dark:text-white">
+              {recorderState === 'paused' ? 'Paused' : 'Recording...'}
+            </h3>
+            <p className="text-3xl font-mono text-slate-600 dark:text-slate-300 mt-2">{formatClock(durationMs / 1000)}</p>
           </div>
         ) : (
           <div>
@@ -132,6 +212,110 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onAudioCaptured, disabled
         )}
       </div>
 
+      {/* Input Level */}
+      {isActive && (
+        <div className="w-full max-w-xs mb-6">
+          <div
+            className="h-2 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden"
+            role="meter"
+            aria-label="Input level"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(meterPercent)}
+          >
+            <div
+              className={`h-full transition-[width] duration-75 ${input.isClipping ? 'bg-red-500' : 'bg-green-500'}`}
+              style={{ width: `${meterPercent}%` }}
+            />
+          </div>
+          {input.isClipping && (
+            <p className="flex items-center text-xs text-red-600 dark:text-red-400 mt-2">
+              <AlertTriangle size={14} className="mr-1.5" />
+              Input is clipping. Move back from the microphone or lower its gain.
+            </p>
+          )}
+          {input.isSilent && !input.isClipping && (
+            <p className="flex items-center text-xs text-amber-600 dark:text-amber-400 mt-2">
+              <VolumeX size={14} className="mr-1.5" />
+              No sound detected. Check that the right microphone is selected and not muted.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Input Settings */}
+      {!isActive && (
+        <div className="w-full max-w-xs mb-6 space-y-3 text-sm text-slate-600 dark:text-slate-300">
+          <div>
+            <span className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Source</span>
+            <div className="flex bg-slate-100 dark:bg-slate-900 p-1 rounded-lg" role="radiogroup" aria-label="Capture source">
+              {CAPTURE_SOURCES.map(source => (
+                <button
+                  key={source.id}
+                  onClick={() => updateSettings({ source: source.id })}
+                  disabled={disabled}
+                  role="radio"
+                  aria-checked={settings.source === source.id}
+                  className={`flex-1 px-2 py-1.5 rounded-md text-xs font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                    settings.source === source.id
+                      ? 'bg-white dark:bg-slate-700 text-indigo-600 dark:text-indigo-300 shadow-sm'
+                      : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'
+                  }`}
+                >
+                  {source.label}
+                </button>
+              ))}
+            </div>
+            {settings.source !== 'microphone' && (
+              <p className="flex items-start text-xs text-slate-500 dark:text-slate-400 mt-2">
+                <MonitorSpeaker size={14} className="mr-1.5 mt-0.5 flex-shrink-0" />
+                When the share dialog opens, pick the tab with your call or video and turn on tab audio.
+              </p>
+            )}
+          </div>
+          {settings.source !== 'display' && (
+          <>
+          <label className="block">
+            <span className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">Microphone</span>
+            <select
+              value={settings.deviceId}
+              onChange={(e) => updateSettings({ deviceId: e.target.value })}
+              disabled={disabled}
+              className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="">System default</option>
+              {devices.filter(device => device.deviceId && device.deviceId !== 'default').map((device, i) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label || `Microphone ${i + 1}`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={settings.echoCancellation}
+              onChange={(e) => updateSettings({ echoCancellation: e.target.checked })}
+              disabled={disabled}
+              className="mr-2 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Echo cancellation
+          </label>
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={settings.noiseSuppression}
+              onChange={(e) => updateSettings({ noiseSuppression: e.target.checked })}
+              disabled={disabled}
+              className="mr-2 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Noise suppression
+          </label>
+          </>
+          )}
+        </div>
+      )}
+
       {error && (
         <div className="flex items-center text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 px-4 py-2 rounded-lg mb-4 text-sm">
           <AlertCircle size={16} className="mr-2" />
@@ -139,26 +323,37 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onAudioCaptured, disabled
         </div>
       )}
 
-      {!isRecording ? (
-        <Button 
-          onClick={startRecording} 
+      {!isActive ? (
+        <Button
+          onClick={startRecording}
           disabled={disabled}
           className="w-full max-w-xs"
         >
           Start Recording
         </Button>
       ) : (
-        <Button 
-          onClick={stopRecording} 
-          variant="danger"
-          icon={<Square size={16} fill="currentColor" />}
-          className="w-full max-w-xs"
-        >
-          Stop Recording
-        </Button>
+        <div className="flex w-full max-w-xs space-x-3">
+          {recorderState === 'paused' ? (
+            <Button onClick={resumeRecording} variant="secondary" icon={<Play size={16} />} className="flex-1">
+              Resume
+            </Button>
+          ) : (
+            <Button onClick={pauseRecording} variant="secondary" icon={<Pause size={16} />} className="flex-1">
+              Pause
+            </Button>
+          )}
+          <Button
+            onClick={stopRecording}
+            variant="danger"
+            icon={<Square size={16} fill="currentColor" />}
+            className="flex-1"
+          >
+            Stop
+          </Button>
+        </div>
       )}
     </div>
   );
 };
 
-export default AudioRecorder;
\ No newline at end of file
+export default AudioRecorder;
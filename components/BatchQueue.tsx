@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Clock, Loader2, CheckCircle2, AlertCircle, Ban, RotateCcw, X, Trash2, FolderOpen, ListChecks } from 'lucide-react';
+import { BatchJob, BatchJobStatus } from '../types';
+import { MAX_BATCH_CONCURRENCY, summarizeQueue } from '../services/batchQueue';
+import { formatBytes } from '../utils/format';
+
+interface BatchQueueProps {
+  jobs: BatchJob[];
+  concurrency: number;
+  onConcurrencyChange: (value: number) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  /** Opens a finished job's transcript from the library. */
+  onOpen: (entryId: string) => void;
+}
+
+const STATUS_DISPLAY: Record<BatchJobStatus, { label: string; icon: React.ReactNode; className: string }> = {
+  queued: { label: 'Queued', icon: <Clock size={16} />, className: 'text-slate-400 dark:text-slate-500' },
+  processing: { label: 'Transcribing', icon: <Loader2 size={16} className="animate-spin" />, className: 'text-indigo-600 dark:text-indigo-400' },
+  success: { label: 'Done', icon: <CheckCircle2 size={16} />, className: 'text-green-600 dark:text-green-400' },
+  error: { label: 'Failed', icon: <AlertCircle size={16} />, className: 'text-red-600 dark:text-red-400' },
+  cancelled: { label: 'Cancelled', icon: <Ban size={16} />, className: 'text-slate-400 dark:text-slate-500' },
+};
+
+const actionStyles = "p-1.5 rounded-lg text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const BatchQueue: React.FC<BatchQueueProps> = ({
+  jobs, concurrency, onConcurrencyChange, onCancel, onRetry, onRemove, onClearFinished, onOpen,
+}) => {
+  const summary = summarizeQueue(jobs);
+  const percent = summary.total > 0 ? Math.round((summary.finished / summary.total) * 100) : 0;
+
+  return (
+    <section className="bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-800 p-6 transition-colors duration-300" aria-label="Batch queue">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="flex items-center text-lg font-semibold text-slate-900 dark:text-white">
+            <ListChecks size={18} className="mr-2 text-indigo-600 dark:text-indigo-400" />
+            Batch Queue
+          </h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {summary.finished} of {summary.total} finished
+            {summary.failed > 0 && ` · ${summary.failed} failed`}
+            {summary.succeeded > 0 && ' · finished transcripts are saved to the library'}
+          </p>
+        </div>
+        <div className="flex items-center space-x-3 text-sm">
+          <label className="flex items-center text-slate-600 dark:text-slate-300">
+            <span className="mr-2">At once</span>
+            <select
+              value={concurrency}
+              onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+              className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-2 py-1 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              aria-label="Files to transcribe at once"
+            >
+              {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          {summary.succeeded > 0 && (
+            <button onClick={onClearFinished} className="text-xs font-medium text-slate-500 hover:text-slate-800 dark:text-slate-400 dark:hover:text-white">
+              Clear finished
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div
+        className="h-2 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden mb-4"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={summary.total}
+        aria-valuenow={summary.finished}
+        aria-label="Batch progress"
+      >
+        <div className="h-full bg-indigo-600 dark:bg-indigo-500 transition-all duration-300" style={{ width: `${percent}%` }} />
+      </div>
+
+      <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+        {jobs.map(job => {
+          const display = STATUS_DISPLAY[job.status];
+          const parts = job.progress && job.progress.total > 1 ? ` (${job.progress.completed}/${job.progress.total} parts)` : '';
+          return (
+            <li key={job.id} className="flex items-center justify-between py-2.5 gap-3">
+              <div className="flex items-center min-w-0">
+                <span className={`mr-3 flex-shrink-0 ${display.className}`}>{display.icon}</span>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-slate-800 dark:text-slate-200 truncate">{job.fileName}</p>
+                  <p className={`text-xs truncate ${job.status === 'error' ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-slate-400'}`}>
+                    {display.label}{parts} · {formatBytes(job.blob.size)}
+                    {job.error && ` · ${job.error}`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center flex-shrink-0">
+                {job.status === 'success' && job.entryId && (
+                  <button onClick={() => onOpen(job.entryId!)} className={actionStyles} aria-label={`Open ${job.fileName}`} title="Open transcript">
+                    <FolderOpen size={16} />
+                  </button>
+                )}
+                {(job.status === 'error' || job.status === 'cancelled') && (
+                  <button onClick={() => onRetry(job.id)} className={actionStyles} aria-label={`Retry ${job.fileName}`} title="Retry">
+                    <RotateCcw size={16} />
+                  </button>
+                )}
+                {(job.status === 'queued' || job.status === 'processing') ? (
+                  <button onClick={() => onCancel(job.id)} className={actionStyles} aria-label={`Cancel ${job.fileName}`} title="Cancel">
+                    <X size={16} />
+                  </button>
+                ) : (
+                  <button onClick={() => onRemove(job.id)} className={actionStyles} aria-label={`Remove ${job.fileName}`} title="Remove from queue">
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default BatchQueue;
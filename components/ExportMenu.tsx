@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useRef, useEffect } from 'react';
+import { Download, ChevronDown } from 'lucide-react';
+import Button from './Button';
+import { TranscriptionResponse } from '../types';
+import {
+  exportTranscript,
+  downloadFile,
+  EXPORT_FORMATS,
+  DEFAULT_EXPORT_OPTIONS,
+  ExportFormat,
+  ExportOptions,
+} from '../services/transcriptExport';
+import { hasAcceptedRedactions } from '../services/redaction';
+
+interface ExportMenuProps {
+  data: TranscriptionResponse;
+  baseName?: string;
+}
+
+const OPTION_LABELS: { key: keyof ExportOptions; label: string }[] = [
+  { key: 'includeEmotion', label: 'Include emotion' },
+  { key: 'includeLanguage', label: 'Include language' },
+  { key: 'mergeSpeakerTurns', label: 'Merge consecutive speaker turns' },
+  { key: 'translationTrack', label: 'Subtitles: use translation track' },
+  { key: 'wordTimedCues', label: 'Subtitles: short word-timed cues' },
+  { key: 'redact', label: 'Redact accepted personal data' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ data, baseName }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  // Redaction is only offered once a reviewer has accepted something to redact.
+  const canRedact = hasAcceptedRedactions(data);
+  const optionLabels = OPTION_LABELS.filter(({ key }) => key !== 'redact' || canRedact);
+
+  const handleExport = (format: ExportFormat) => {
+    downloadFile(exportTranscript(data, format, { ...options, redact: options.redact && canRedact }, baseName));
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <Button
+        variant="secondary"
+        onClick={() => setIsOpen(!isOpen)}
+        icon={<Download size={16} />}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        Export
+        <ChevronDown size={16} className="ml-1" />
+      </Button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 mt-2 w-72 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl shadow-lg z-20 overflow-hidden"
+        >
+          <div className="p-3 space-y-2 border-b border-slate-100 dark:border-slate-700">
+            {optionLabels.map(({ key, label }) => (
+              <label key={key} className="flex items-center text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options[key]}
+                  onChange={(e) => setOptions({ ...options, [key]: e.target.checked })}
+                  className="mr-2 rounded text-indigo-600 focus:ring-indigo-500"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          <div className="py-1">
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <button
+                key={format}
+                role="menuitem"
+                onClick={() => handleExport(format)}
+                className="w-full text-left px-4 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700 focus:outline-none focus:bg-slate-50 dark:focus:bg-slate-700"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -3,40 +3,168 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useRef } from 'react';
-import { UploadCloud, FileAudio, X } from 'lucide-react';
-import { AudioData } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { UploadCloud, FileAudio, X, Wand2, Loader2 } from 'lucide-react';
+import WaveformSelector from './WaveformSelector';
+import { AudioData, PreparedAudio } from '../types';
+import { DecodedAudio, blobToBase64, computePeaks } from '../services/audioProcessing';
+import {
+  PreprocessOptions, DEFAULT_PREPROCESS_OPTIONS, decodeForPreprocessing, preprocessAudio, supportsOpusEncoding,
+} from '../services/audioPreprocessing';
+import { AudioRegion, RegionMode, resolveSpans } from '../services/audioRegions';
+import { formatBytes } from '../utils/format';
+import { collectDroppedFiles } from '../utils/droppedFiles';
+
+// Long files are decoded in the browser and transcribed in chunks, so the cap
+// is about memory rather than the request size limit.
+const MAX_FILE_SIZE_MB = 200;
 
 interface FileUploaderProps {
   onFileSelected: (audioData: AudioData) => void;
+  /** Called when the last delivered audio no longer matches the selection: while re-encoding, or with nothing selected. */
+  onSelectionCleared?: () => void;
+  /** Receives several files picked or dropped at once; without it only the first is used. */
+  onFilesQueued?: (files: File[]) => void;
   disabled?: boolean;
 }
 
-const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelected, disabled }) => {
+const isMediaFile = (file: File) => file.type.startsWith('audio/') || file.type.startsWith('video/');
+
+type PrepareState =
+  | { status: 'idle' }
+  | { status: 'working' }
+  | { status: 'done'; prepared: PreparedAudio }
+  | { status: 'failed' }
+  | { status: 'empty' };
+
+interface DecodedFile {
+  audio: DecodedAudio;
+  peaks: Float32Array;
+}
+
+// Columns in the waveform; the canvas is scaled to fit.
+const WAVEFORM_COLUMNS = 500;
+
+// Used when only cutting is wanted, so nothing else about the audio changes.
+const CUT_ONLY_OPTIONS: PreprocessOptions = { format: 'wav', normalize: false, trimSilence: false };
+
+const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelected, onSelectionCleared, onFilesQueued, disabled }) => {
   const [dragActive, setDragActive] = useState(false);
-  const [fileName, setFileName] = useState<string | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  // Null while decoding, or for good when the browser cannot decode the file.
+  const [decoded, setDecoded] = useState<DecodedFile | null>(null);
+  const [decodeFailed, setDecodeFailed] = useState(false);
+  const [regions, setRegions] = useState<AudioRegion[]>([]);
+  const [regionMode, setRegionMode] = useState<RegionMode>('include');
+  const [optimize, setOptimize] = useState(true);
+  const [options, setOptions] = useState<PreprocessOptions>(DEFAULT_PREPROCESS_OPTIONS);
+  const [canUseOpus, setCanUseOpus] = useState(true);
+  const [prepare, setPrepare] = useState<PrepareState>({ status: 'idle' });
   const inputRef = useRef<HTMLInputElement>(null);
+  // Ignores results from a run that newer choices have superseded.
+  const runRef = useRef(0);
+  const rawBase64Ref = useRef<{ file: File; base64: Promise<string> } | null>(null);
+  // The parent recreates its handler on every render; only real input changes should re-encode.
+  const onFileSelectedRef = useRef(onFileSelected);
+  onFileSelectedRef.current = onFileSelected;
+  const onSelectionClearedRef = useRef(onSelectionCleared);
+  onSelectionClearedRef.current = onSelectionCleared;
 
-  const processFile = (file: File) => {
-    if (!file.type.startsWith('audio/') && !file.type.startsWith('video/')) {
-      alert("Please upload a valid audio file.");
+  useEffect(() => {
+    supportsOpusEncoding().then(setCanUseOpus);
+  }, []);
+
+  // Decode once per file; the waveform and every re-encode share the result.
+  useEffect(() => {
+    setDecoded(null);
+    setDecodeFailed(false);
+    setRegions([]);
+    if (!file) return;
+
+    let cancelled = false;
+    decodeForPreprocessing(file)
+      .then(audio => {
+        if (!cancelled) setDecoded({ audio, peaks: computePeaks(audio.samples, WAVEFORM_COLUMNS) });
+      })
+      .catch(err => {
+        // Files the browser cannot decode are still sent as they are.
+        console.error("Audio decoding failed:", err);
+        if (!cancelled) setDecodeFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  // Re-encode whenever the selection or the preprocessing choices change.
+  useEffect(() => {
+    if (!file || (!decoded && !decodeFailed)) return;
+    const run = ++runRef.current;
+    // Until the new audio is ready, the parent must not send the old one.
+    onSelectionClearedRef.current?.();
+
+    const spans = decoded ? resolveSpans(regions, regionMode, decoded.audio.duration) : [];
+    if (decoded && spans.length === 0) {
+      setPrepare({ status: 'empty' });
       return;
     }
+    const isCut = regions.length > 0;
 
-    setFileName(file.name);
+    const deliver = async () => {
+      let prepared: PreparedAudio | undefined;
+      if (decoded && (optimize || isCut)) {
+        setPrepare({ status: 'working' });
+        const chosen = optimize ? { ...options, format: canUseOpus ? options.format : 'wav' as const } : CUT_ONLY_OPTIONS;
+        try {
+          prepared = await preprocessAudio(decoded.audio, chosen, spans);
+          if (run !== runRef.current) return;
+          setPrepare({ status: 'done', prepared });
+        } catch (err) {
+          console.error("Audio preprocessing failed:", err);
+          if (run !== runRef.current) return;
+          setPrepare({ status: 'failed' });
+        }
+      } else {
+        setPrepare({ status: decodeFailed && optimize ? 'failed' : 'idle' });
+      }
 
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      const base64 = base64String.split(',')[1];
-      
-      onFileSelected({
+      if (rawBase64Ref.current?.file !== file) rawBase64Ref.current = { file, base64: blobToBase64(file) };
+      const base64 = await rawBase64Ref.current.base64;
+      if (run !== runRef.current) return;
+      onFileSelectedRef.current({
         blob: file,
         base64,
-        mimeType: file.type
+        mimeType: file.type,
+        fileName: file.name,
+        prepared,
       });
     };
+    deliver();
+  }, [file, decoded, decodeFailed, regions, regionMode, optimize, options, canUseOpus]);
+
+  const processFiles = (files: File[]) => {
+    // Dropped folders often hold notes or cover art next to the recordings.
+    const media = files.filter(isMediaFile);
+    if (media.length === 0) {
+      alert("Please upload a valid audio file.");
+      return;
+    }
+
+    const tooLarge = media.filter(file => file.size > MAX_FILE_SIZE_MB * 1024 * 1024);
+    if (tooLarge.length > 0) {
+      alert(media.length === 1
+        ? `File is too large. The maximum size is ${MAX_FILE_SIZE_MB}MB.`
+        : `These files are over ${MAX_FILE_SIZE_MB}MB and were skipped: ${tooLarge.map(file => file.name).join(', ')}`);
+    }
+    const usable = media.filter(file => !tooLarge.includes(file));
+    if (usable.length === 0) return;
+
+    if (usable.length > 1 && onFilesQueued) {
+      onFilesQueued(usable);
+      return;
+    }
+    onSelectionCleared?.();
+    setFile(usable[0]);
   };
 
   const handleDrag = (e: React.DragEvent) => {
@@ -53,19 +181,26 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelected, disabled })
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      processFile(e.dataTransfer.files[0]);
-    }
+    if (disabled) return;
+    collectDroppedFiles(e.dataTransfer)
+      .then(files => files.length > 0 && processFiles(files))
+      .catch(err => console.error("Failed to read dropped files:", err));
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      processFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      processFiles(Array.from(e.target.files));
     }
+    // Allows picking the same files again for another batch.
+    e.target.value = "";
   };
 
   const handleClear = () => {
-    setFileName(null);
+    runRef.current++;
+    rawBase64Ref.current = null;
+    onSelectionCleared?.();
+    setFile(null);
+    setPrepare({ status: 'idle' });
     if (inputRef.current) inputRef.current.value = "";
   };
 
@@ -85,11 +220,12 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelected, disabled })
         type="file"
         className="hidden"
         accept="audio/*,video/*"
+        multiple={!!onFilesQueued}
         onChange={handleChange}
         disabled={disabled}
       />
       
-      {!fileName ? (
+      {!file ? (
         <div
           role="button"
           tabIndex={disabled ? -1 : 0}
@@ -113,8 +249,13 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelected, disabled })
             Click to upload or drag & drop
           </p>
           <p className="text-sm text-slate-500 dark:text-slate-400">
-            MP3, WAV, M4A, WEBM (Max 20MB)
+            MP3, WAV, M4A, WEBM (Max {MAX_FILE_SIZE_MB}MB)
           </p>
+          {onFilesQueued && (
+            <p className="text-xs text-slate-400 dark:text-slate-500 mt-1">
+              Pick several files or drop a folder to transcribe them in a batch.
+            </p>
+          )}
         </div>
       ) : (
         <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl p-6 flex items-center justify-between shadow-sm transition-colors duration-300">
@@ -123,8 +264,12 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelected, disabled })
               <FileAudio size={24} />
             </div>
             <div>
-              <p className="font-medium text-slate-800 dark:text-slate-200 truncate max-w-[200px] sm:max-w-md">{fileName}</p>
-              <p className="text-xs text-slate-500 dark:text-slate-400">Ready to transcribe</p>
+              <p className="font-medium text-slate-800 dark:text-slate-200 truncate max-w-[200px] sm:max-w-md">{file.name}</p>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {prepare.status === 'working' || (!decoded && !decodeFailed)
+                  ? 'Preparing audio…'
+                  : prepare.status === 'empty' ? 'Nothing selected to transcribe' : 'Ready to transcribe'}
+              </p>
             </div>
           </div>
           <button 
@@ -137,6 +282,101 @@ const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelected, disabled })
           </button>
         </div>
       )}
+
+      {file && !decodeFailed && (
+        <div className="mt-4">
+          {decoded ? (
+            <WaveformSelector
+              peaks={decoded.peaks}
+              durationSec={decoded.audio.duration}
+              regions={regions}
+              onRegionsChange={setRegions}
+              mode={regionMode}
+              onModeChange={setRegionMode}
+              disabled={disabled}
+            />
+          ) : (
+            <div className="flex items-center justify-center h-20 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg text-xs text-slate-500 dark:text-slate-400">
+              <Loader2 size={14} className="mr-1.5 animate-spin" />
+              Reading audio…
+            </div>
+          )}
+        </div>
+      )}
+
+      {file && (
+        <div className="mt-4 bg-slate-50 dark:bg-slate-800/60 border border-slate-200 dark:border-slate-700 rounded-xl p-4 text-sm text-slate-600 dark:text-slate-300 space-y-3 transition-colors duration-300">
+          <label className="flex items-center font-medium">
+            <input
+              type="checkbox"
+              checked={optimize}
+              onChange={(e) => setOptimize(e.target.checked)}
+              disabled={disabled}
+              className="mr-2 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <Wand2 size={16} className="mr-1.5 text-indigo-600 dark:text-indigo-400" />
+            Optimize audio before upload
+          </label>
+
+          {optimize && (
+            <div className="flex flex-wrap items-center gap-x-5 gap-y-2 pl-6">
+              <label className="flex items-center">
+                <span className="mr-2">Format</span>
+                <select
+                  value={canUseOpus ? options.format : 'wav'}
+                  onChange={(e) => setOptions({ ...options, format: e.target.value as PreprocessOptions['format'] })}
+                  disabled={disabled}
+                  className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded px-2 py-1 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {canUseOpus && <option value="opus">Opus (smallest)</option>}
+                  <option value="wav">WAV (lossless)</option>
+                </select>
+              </label>
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={options.normalize}
+                  onChange={(e) => setOptions({ ...options, normalize: e.target.checked })}
+                  disabled={disabled}
+                  className="mr-2 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Normalize loudness
+              </label>
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={options.trimSilence}
+                  onChange={(e) => setOptions({ ...options, trimSilence: e.target.checked })}
+                  disabled={disabled}
+                  className="mr-2 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Trim leading and trailing silence
+              </label>
+            </div>
+          )}
+
+          {(optimize || regions.length > 0) && (
+            <p className="pl-6 text-xs text-slate-500 dark:text-slate-400" aria-live="polite">
+              {prepare.status === 'working' && (
+                <span className="flex items-center">
+                  <Loader2 size={14} className="mr-1.5 animate-spin" />
+                  {optimize ? 'Converting to 16 kHz mono…' : 'Cutting out the selection…'}
+                </span>
+              )}
+              {prepare.status === 'done' && (
+                <>
+                  {formatBytes(file.size)} → {formatBytes(prepare.prepared.blob.size)}
+                  {prepare.prepared.blob.size < file.size
+                    ? ` (${Math.round((1 - prepare.prepared.blob.size / file.size) * 100)}% smaller)`
+                    : ' (no smaller than the original)'}
+                </>
+              )}
+              {prepare.status === 'failed' && "This file could not be converted in the browser, so it will be uploaded as is."}
+              {prepare.status === 'empty' && "The selection skips the whole file. Remove a region or switch to \"Transcribe selection\"."}
+            </p>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { TextRange } from '../services/transcriptSearch';
+
+interface HighlightedTextProps {
+  text: string;
+  /** Non-overlapping ranges in ascending order. */
+  ranges: TextRange[];
+  /** Start offset of the range to emphasise as the current match. */
+  activeStart?: number;
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, ranges, activeStart }) => {
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(range => {
+    if (range.start > cursor) parts.push(text.slice(cursor, range.start));
+    const isActive = range.start === activeStart;
+    parts.push(
+      <mark
+        key={range.start}
+        data-active-match={isActive || undefined}
+        className={`rounded px-0.5 text-inherit ${
+          isActive ? 'bg-amber-300 dark:bg-amber-500/70' : 'bg-yellow-100 dark:bg-yellow-500/30'
+        }`}
+      >
+        {text.slice(range.start, range.end)}
+      </mark>
+    );
+    cursor = range.end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
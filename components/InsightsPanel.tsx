@@ -0,0 +1,275 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useRef, useEffect } from 'react';
+import { Sparkles, Send, AlertCircle } from 'lucide-react';
+import { ChatMessage, TranscriptionResponse } from '../types';
+import { TranscriptAnalyzer } from '../services/providers';
+import { parseCitations } from '../services/transcriptAnalysis';
+import { formatClock } from '../utils/time';
+import Button from './Button';
+
+interface InsightsPanelProps {
+  data: TranscriptionResponse;
+  /** Enables analysis and questions; without it only the summary and stored analysis show. */
+  analyzer?: TranscriptAnalyzer | null;
+  /** Receives the transcript with a new analysis attached. */
+  onChange?: (next: TranscriptionResponse) => void;
+  /** Shows the transcript at the given time. */
+  onJump: (sec: number) => void;
+}
+
+type Tab = 'summary' | 'actions' | 'decisions' | 'chapters' | 'tags' | 'ask';
+
+const TimeLink: React.FC<{ sec?: number; onJump: (sec: number) => void }> = ({ sec, onJump }) => {
+  if (sec === undefined) return null;
+  return (
+    <button
+      onClick={() => onJump(sec)}
+      className="font-mono text-xs text-indigo-600 dark:text-indigo-400 hover:underline focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded"
+      aria-label={`Go to ${formatClock(sec)}`}
+    >
+      {formatClock(sec)}
+    </button>
+  );
+};
+
+const EmptyNote: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <p className="text-sm text-slate-500 dark:text-slate-400">{children}</p>
+);
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : "Something went wrong.");
+
+const InsightsPanel: React.FC<InsightsPanelProps> = ({ data, analyzer, onChange, onJump }) => {
+  const [tab, setTab] = useState<Tab>(data.summary ? 'summary' : 'actions');
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [chatError, setChatError] = useState<string | null>(null);
+  // Analysis and questions run independently, so each has its own controller.
+  const analyzeControllerRef = useRef<AbortController | null>(null);
+  const askControllerRef = useRef<AbortController | null>(null);
+  // The transcript may be edited while a request runs; results go onto the latest one.
+  const dataRef = useRef(data);
+  dataRef.current = data;
+
+  useEffect(() => () => {
+    analyzeControllerRef.current?.abort();
+    askControllerRef.current?.abort();
+  }, []);
+
+  const { analysis } = data;
+  const canAnalyze = !!analyzer && !!onChange && data.segments.length > 0;
+
+  const tabs: { id: Tab; label: string }[] = [
+    ...(data.summary ? [{ id: 'summary' as const, label: 'Summary' }] : []),
+    ...(analysis || canAnalyze ? [
+      { id: 'actions' as const, label: `Action Items${analysis ? ` (${analysis.actionItems.length})` : ''}` },
+      { id: 'decisions' as const, label: `Decisions${analysis ? ` (${analysis.decisions.length})` : ''}` },
+      { id: 'chapters' as const, label: 'Chapters' },
+      { id: 'tags' as const, label: 'Tags' },
+    ] : []),
+    ...(analyzer && data.segments.length > 0 ? [{ id: 'ask' as const, label: 'Ask' }] : []),
+  ];
+  if (tabs.length === 0) return null;
+  const activeTab = tabs.some(t => t.id === tab) ? tab : tabs[0].id;
+
+  const newController = (ref: React.MutableRefObject<AbortController | null>) => {
+    ref.current?.abort();
+    ref.current = new AbortController();
+    return ref.current.signal;
+  };
+
+  const handleAnalyze = async () => {
+    if (!analyzer || !onChange) return;
+    const signal = newController(analyzeControllerRef);
+    setIsAnalyzing(true);
+    setAnalysisError(null);
+    try {
+      const result = await analyzer.analyze(data, signal);
+      onChange({ ...dataRef.current, analysis: result });
+    } catch (err) {
+      if (!signal.aborted) setAnalysisError(errorMessage(err));
+    } finally {
+      if (!signal.aborted) setIsAnalyzing(false);
+    }
+  };
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (!analyzer || !text || isAsking) return;
+    const signal = newController(askControllerRef);
+    const history = messages;
+    setMessages([...history, { role: 'user', text }]);
+    setQuestion('');
+    setIsAsking(true);
+    setChatError(null);
+    try {
+      const answer = await analyzer.ask(data, history, text, signal);
+      setMessages([...history, { role: 'user', text }, { role: 'assistant', text: answer }]);
+    } catch (err) {
+      if (!signal.aborted) {
+        setMessages(history);
+        setQuestion(text);
+        setChatError(errorMessage(err));
+      }
+    } finally {
+      if (!signal.aborted) setIsAsking(false);
+    }
+  };
+
+  const renderAnalysis = () => {
+    if (!analysis) {
+      return (
+        <div className="flex flex-col items-start space-y-3">
+          <EmptyNote>Find the action items, decisions, chapters and topics in this transcript.</EmptyNote>
+          <Button onClick={handleAnalyze} isLoading={isAnalyzing} icon={<Sparkles size={16} />} className="text-sm">
+            Analyze Transcript
+          </Button>
+        </div>
+      );
+    }
+
+    switch (activeTab) {
+      case 'actions':
+        return analysis.actionItems.length === 0 ? <EmptyNote>No action items were found.</EmptyNote> : (
+          <ul className="space-y-3">
+            {analysis.actionItems.map((item, i) => (
+              <li key={i} className="text-sm">
+                <p className="text-slate-800 dark:text-slate-200">{item.task}</p>
+                <p className="flex flex-wrap items-center gap-x-3 text-xs text-slate-500 dark:text-slate-400">
+                  {item.owner && <span>Owner: {item.owner}</span>}
+                  {item.due && <span>Due: {item.due}</span>}
+                  <TimeLink sec={item.startSec} onJump={onJump} />
+                </p>
+              </li>
+            ))}
+          </ul>
+        );
+      case 'decisions':
+        return analysis.decisions.length === 0 ? <EmptyNote>No decisions were found.</EmptyNote> : (
+          <ul className="space-y-2">
+            {analysis.decisions.map((decision, i) => (
+              <li key={i} className="flex items-baseline gap-3 text-sm text-slate-800 dark:text-slate-200">
+                <TimeLink sec={decision.startSec} onJump={onJump} />
+                <span>{decision.text}</span>
+              </li>
+            ))}
+          </ul>
+        );
+      case 'chapters':
+        return analysis.chapters.length === 0 ? <EmptyNote>No chapters were found.</EmptyNote> : (
+          <ol className="space-y-2">
+            {analysis.chapters.map((chapter, i) => (
+              <li key={i} className="flex items-baseline gap-3 text-sm">
+                <TimeLink sec={chapter.startSec} onJump={onJump} />
+                <span className="text-slate-800 dark:text-slate-200">{chapter.title}</span>
+                <span className="text-xs text-slate-400 dark:text-slate-500">until {formatClock(chapter.endSec)}</span>
+              </li>
+            ))}
+          </ol>
+        );
+      case 'tags':
+        return analysis.tags.length === 0 ? <EmptyNote>No tags were found.</EmptyNote> : (
+          <div className="flex flex-wrap gap-2">
+            {analysis.tags.map(tag => (
+              <span key={tag} className="px-2.5 py-1 rounded-full text-xs font-medium bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300">
+                {tag}
+              </span>
+            ))}
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const renderAnswer = (text: string) =>
+    parseCitations(text, data).map((part, i) => part.kind === 'text'
+      ? <React.Fragment key={i}>{part.text}</React.Fragment>
+      : (
+        <span key={i} className="mx-0.5">
+          <TimeLink sec={part.startSec} onJump={onJump} />
+        </span>
+      ));
+
+  const renderChat = () => (
+    <div className="space-y-3">
+      {messages.length === 0 && <EmptyNote>Ask anything about this transcript. Answers link to the moments they come from.</EmptyNote>}
+      <ul className="space-y-3 max-h-80 overflow-y-auto" aria-live="polite">
+        {messages.map((message, i) => (
+          <li
+            key={i}
+            className={`text-sm rounded-xl px-3 py-2 ${message.role === 'user'
+              ? 'ml-8 bg-indigo-600 text-white'
+              : 'mr-8 bg-slate-100 dark:bg-slate-800 text-slate-800 dark:text-slate-200'}`}
+          >
+            {message.role === 'user' ? message.text : renderAnswer(message.text)}
+          </li>
+        ))}
+        {isAsking && <li className="mr-8 text-sm text-slate-500 dark:text-slate-400">Thinking…</li>}
+      </ul>
+      <form onSubmit={handleAsk} className="flex items-center space-x-2">
+        <input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="e.g. What did they agree on?"
+          aria-label="Question about the transcript"
+          className="flex-1 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 text-sm text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <Button type="submit" disabled={!question.trim() || isAsking} icon={<Send size={16} />} className="text-sm">
+          Ask
+        </Button>
+      </form>
+    </div>
+  );
+
+  const error = activeTab === 'ask' ? chatError : activeTab === 'summary' ? null : analysisError;
+
+  return (
+    <div className="bg-gradient-to-br from-indigo-50 to-white dark:from-slate-800 dark:to-slate-900 border border-indigo-100 dark:border-slate-700 rounded-2xl p-6 shadow-sm transition-colors duration-300">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div role="tablist" aria-label="Transcript insights" className="flex flex-wrap gap-1">
+          {tabs.map(t => (
+            <button
+              key={t.id}
+              role="tab"
+              aria-selected={activeTab === t.id}
+              onClick={() => setTab(t.id)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 ${activeTab === t.id
+                ? 'bg-indigo-600 text-white'
+                : 'text-indigo-900 dark:text-indigo-200 hover:bg-indigo-100 dark:hover:bg-slate-700'}`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+        {analysis && canAnalyze && activeTab !== 'summary' && activeTab !== 'ask' && (
+          <Button variant="ghost" onClick={handleAnalyze} isLoading={isAnalyzing} icon={<Sparkles size={16} />} className="text-sm">
+            Re-analyze
+          </Button>
+        )}
+      </div>
+
+      <div role="tabpanel">
+        {activeTab === 'summary' && <p className="text-slate-700 dark:text-slate-300 leading-relaxed">{data.summary}</p>}
+        {activeTab === 'ask' && renderChat()}
+        {activeTab !== 'summary' && activeTab !== 'ask' && renderAnalysis()}
+      </div>
+
+      {error && (
+        <p className="flex items-center mt-3 text-sm text-red-600 dark:text-red-400">
+          <AlertCircle size={16} className="mr-2 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default InsightsPanel;
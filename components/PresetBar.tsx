@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useRef } from 'react';
+import { BookmarkPlus, Trash2, Upload, Download, Check, X } from 'lucide-react';
+import { TranscriptionRequest } from '../types';
+import {
+  TranscriptionPreset, BUILT_IN_PRESETS, PresetImportError, findMatchingPreset, loadCustomPresets,
+  saveCustomPresets, upsertPresets, createPreset, serializePresets, parsePresets,
+} from '../services/transcriptionPresets';
+import { downloadFile } from '../services/transcriptExport';
+
+interface PresetBarProps {
+  /** The choices currently in effect, used to show which preset is active. */
+  request: TranscriptionRequest;
+  onApply: (request: TranscriptionRequest) => void;
+  disabled?: boolean;
+}
+
+const iconButtonStyles = "p-1.5 rounded-lg text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 hover:text-slate-800 dark:hover:text-white disabled:opacity-40 disabled:pointer-events-none focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+/**
+ * Picks, saves, deletes, imports and exports named transcription presets.
+ * Custom presets are kept in this browser.
+ */
+const PresetBar: React.FC<PresetBarProps> = ({ request, onApply, disabled }) => {
+  const [customPresets, setCustomPresets] = useState<TranscriptionPreset[]>(loadCustomPresets);
+  const [draftName, setDraftName] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const presets = [...BUILT_IN_PRESETS, ...customPresets];
+  const active = findMatchingPreset(presets, request);
+
+  const updateCustomPresets = (next: TranscriptionPreset[]) => {
+    setCustomPresets(next);
+    saveCustomPresets(next);
+  };
+
+  const handleSelect = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (preset) onApply(preset.request);
+    setMessage(null);
+  };
+
+  const handleSave = () => {
+    const name = draftName?.trim();
+    if (!name) return;
+    updateCustomPresets(upsertPresets(customPresets, [createPreset(name, request)]));
+    setDraftName(null);
+    setMessage({ text: `Saved "${name}".`, isError: false });
+  };
+
+  const handleDelete = () => {
+    if (!active || active.builtIn) return;
+    if (!window.confirm(`Delete the preset "${active.name}"?`)) return;
+    updateCustomPresets(customPresets.filter(p => p.id !== active.id));
+    setMessage(null);
+  };
+
+  const handleExport = () => {
+    downloadFile({ filename: 'echoscript-presets.json', mimeType: 'application/json', content: serializePresets(customPresets) });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresets(await file.text());
+      updateCustomPresets(upsertPresets(customPresets, imported));
+      setMessage({ text: `Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}.`, isError: false });
+    } catch (err) {
+      if (!(err instanceof PresetImportError)) console.error(err);
+      setMessage({ text: err instanceof PresetImportError ? err.message : 'The presets file could not be read.', isError: true });
+    }
+  };
+
+  return (
+    <div className="mb-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="preset" className="text-sm font-medium text-slate-700 dark:text-slate-200">Preset</label>
+        {draftName === null ? (
+          <select
+            id="preset"
+            value={active?.id ?? ''}
+            onChange={(e) => handleSelect(e.target.value)}
+            disabled={disabled}
+            className="flex-1 min-w-0 sm:flex-none sm:w-56 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-2 py-1.5 text-sm text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {!active && <option value="">Custom settings</option>}
+            <optgroup label="Built-in">
+              {BUILT_IN_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+            </optgroup>
+            {customPresets.length > 0 && (
+              <optgroup label="Saved">
+                {customPresets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+        ) : (
+          <>
+            <input
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave();
+                if (e.key === 'Escape') setDraftName(null);
+              }}
+              placeholder="Preset name"
+              aria-label="Preset name"
+              autoFocus
+              className="flex-1 min-w-0 sm:flex-none sm:w-56 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-2 py-1.5 text-sm text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <button onClick={handleSave} disabled={!draftName.trim()} className={iconButtonStyles} aria-label="Save preset" title="Save preset">
+              <Check size={16} />
+            </button>
+            <button onClick={() => setDraftName(null)} className={iconButtonStyles} aria-label="Cancel" title="Cancel">
+              <X size={16} />
+            </button>
+          </>
+        )}
+
+        {draftName === null && (
+          <div className="flex items-center">
+            <button
+              onClick={() => setDraftName(active && !active.builtIn ? active.name : '')}
+              disabled={disabled}
+              className={iconButtonStyles}
+              aria-label="Save current settings as a preset"
+              title="Save as preset"
+            >
+              <BookmarkPlus size={16} />
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={disabled || !active || active.builtIn}
+              className={iconButtonStyles}
+              aria-label="Delete preset"
+              title="Delete preset"
+            >
+              <Trash2 size={16} />
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled}
+              className={iconButtonStyles}
+              aria-label="Import presets"
+              title="Import presets"
+            >
+              <Upload size={16} />
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={customPresets.length === 0}
+              className={iconButtonStyles}
+              aria-label="Export saved presets"
+              title="Export saved presets"
+            >
+              <Download size={16} />
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+          </div>
+        )}
+      </div>
+      {message && (
+        <p className={`mt-1.5 text-xs ${message.isError ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-slate-400'}`} role="status">
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PresetBar;
@@ -0,0 +1,283 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { ShieldCheck, ChevronDown, ScanSearch, Check, X, Eraser, AudioLines, AlertCircle } from 'lucide-react';
+import { PiiMatch, TranscriptionResponse } from '../types';
+import { TranscriptAnalyzer } from '../services/providers';
+import {
+  PII_KINDS, detectPii, mergeMatches, isCurrentMatch, redactTranscript, redactionSpans, bleepAudio,
+} from '../services/redaction';
+import { downloadFile } from '../services/transcriptExport';
+import { formatClock } from '../utils/time';
+import Button from './Button';
+
+interface RedactionPanelProps {
+  data: TranscriptionResponse;
+  /** Original recording; enables the bleeped download. */
+  audio?: Blob | null;
+  /** File name without extension for the bleeped download. */
+  baseName?: string;
+  /** Receives the transcript with an updated review, or its redacted copy. */
+  onChange?: (next: TranscriptionResponse) => void;
+  /** Offers model-assisted detection when the provider supports it. */
+  analyzer?: TranscriptAnalyzer | null;
+  /** Shows the transcript at the given time. */
+  onJump: (sec: number) => void;
+}
+
+// Characters of surrounding text shown on each side of a hit.
+const CONTEXT_CHARS = 30;
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : "Something went wrong.");
+
+const Snippet: React.FC<{ text: string; start: number; end: number }> = ({ text, start, end }) => (
+  <span className="text-slate-700 dark:text-slate-300">
+    {start > CONTEXT_CHARS && '…'}
+    {text.slice(Math.max(0, start - CONTEXT_CHARS), start)}
+    <mark className="rounded px-0.5 text-inherit bg-amber-200 dark:bg-amber-500/40">{text.slice(start, end)}</mark>
+    {text.slice(end, end + CONTEXT_CHARS)}
+    {end + CONTEXT_CHARS < text.length && '…'}
+  </span>
+);
+
+const VerdictButton: React.FC<{ active: boolean; tone: 'accept' | 'reject'; label: string; onClick: () => void }> = ({
+  active, tone, label, onClick,
+}) => {
+  const activeStyle = tone === 'accept'
+    ? 'bg-emerald-600 text-white border-emerald-600'
+    : 'bg-slate-600 text-white border-slate-600 dark:bg-slate-500 dark:border-slate-500';
+  return (
+    <button
+      onClick={onClick}
+      aria-pressed={active}
+      aria-label={label}
+      title={label}
+      className={`p-1 rounded-md border focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+        active ? activeStyle : 'border-slate-200 dark:border-slate-600 text-slate-500 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-700'
+      }`}
+    >
+      {tone === 'accept' ? <Check size={14} /> : <X size={14} />}
+    </button>
+  );
+};
+
+const RedactionPanel: React.FC<RedactionPanelProps> = ({ data, audio, baseName, onChange, analyzer, onJump }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [useModel, setUseModel] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isBleeping, setIsBleeping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  // The transcript may be edited while the model looks for personal data; hits go onto the latest one.
+  const dataRef = useRef(data);
+  dataRef.current = data;
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const review = data.redaction;
+  // Hits whose text was edited away since the scan are left out.
+  const matches = useMemo(() => (review?.matches ?? []).filter(match => isCurrentMatch(match, data)), [review, data]);
+  const pending = matches.filter(match => match.status === 'pending').length;
+  const accepted = matches.filter(match => match.status === 'accepted').length;
+  const bleepSpans = useMemo(() => redactionSpans(data), [data]);
+
+  if (!onChange || data.segments.length === 0) return null;
+
+  const setMatches = (next: PiiMatch[]) => onChange({ ...data, redaction: { matches: next, createdAt: review?.createdAt ?? Date.now() } });
+
+  const setStatus = (ids: string[], status: PiiMatch['status']) =>
+    setMatches((review?.matches ?? []).map(match => (ids.includes(match.id) ? { ...match, status } : match)));
+
+  const handleScan = async () => {
+    controllerRef.current?.abort();
+    controllerRef.current = new AbortController();
+    const { signal } = controllerRef.current;
+    setIsScanning(true);
+    setError(null);
+    try {
+      const found = detectPii(data);
+      const fromModel = useModel && analyzer?.detectPii ? await analyzer.detectPii(data, signal) : [];
+      const latest = dataRef.current;
+      const matches = mergeMatches(latest, latest.redaction?.matches ?? [], [...found, ...fromModel]);
+      onChange({ ...latest, redaction: { matches, createdAt: Date.now() } });
+    } catch (err) {
+      if (!signal.aborted) setError(errorMessage(err));
+    } finally {
+      if (!signal.aborted) setIsScanning(false);
+    }
+  };
+
+  const handleBleep = async () => {
+    if (!audio) return;
+    setIsBleeping(true);
+    setError(null);
+    try {
+      const blob = await bleepAudio(audio, bleepSpans);
+      downloadFile({ filename: `${baseName || 'recording'}.bleeped.wav`, mimeType: 'audio/wav', content: blob });
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setIsBleeping(false);
+    }
+  };
+
+  const pendingIds = matches.filter(match => match.status === 'pending').map(match => match.id);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl shadow-sm transition-colors duration-300">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-6 text-left focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded-2xl"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center text-lg font-semibold text-slate-900 dark:text-white">
+          <ShieldCheck size={18} className="mr-2 text-indigo-600 dark:text-indigo-400" />
+          Personal Data
+        </span>
+        <span className="flex items-center space-x-3">
+          {pending > 0 && (
+            <span className="text-xs font-medium px-2 py-1 rounded-full bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300">
+              {pending} to review
+            </span>
+          )}
+          {accepted > 0 && (
+            <span className="text-xs font-medium px-2 py-1 rounded-full bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300">
+              {accepted} to redact
+            </span>
+          )}
+          <ChevronDown size={18} className={`text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="px-6 pb-6 space-y-4">
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Find names, phone numbers, email addresses, card numbers and addresses, then accept the ones to redact.
+            Accepted hits are replaced with placeholders such as [PHONE] when exporting with redaction or applying it below.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <Button onClick={handleScan} isLoading={isScanning} icon={<ScanSearch size={16} />} className="text-sm">
+              {review ? 'Scan Again' : 'Scan for Personal Data'}
+            </Button>
+            {analyzer?.detectPii && (
+              <label className="flex items-center text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={useModel}
+                  onChange={(e) => setUseModel(e.target.checked)}
+                  className="mr-2 rounded text-indigo-600 focus:ring-indigo-500"
+                />
+                Also ask the model (sends the transcript to the provider)
+              </label>
+            )}
+          </div>
+
+          {error && (
+            <p className="flex items-center text-sm text-red-600 dark:text-red-400">
+              <AlertCircle size={16} className="mr-2 flex-shrink-0" />
+              {error}
+            </p>
+          )}
+
+          {review && matches.length === 0 && (
+            <p className="text-sm text-slate-500 dark:text-slate-400">No personal data was found.</p>
+          )}
+
+          {matches.length > 0 && (
+            <>
+              {pendingIds.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <Button variant="secondary" onClick={() => setStatus(pendingIds, 'accepted')} className="text-xs py-1">
+                    Accept {pendingIds.length} Pending
+                  </Button>
+                  <Button variant="ghost" onClick={() => setStatus(pendingIds, 'rejected')} className="text-xs py-1">
+                    Reject {pendingIds.length} Pending
+                  </Button>
+                </div>
+              )}
+
+              {PII_KINDS.map(({ kind, label }) => {
+                const ofKind = matches.filter(match => match.kind === kind);
+                if (ofKind.length === 0) return null;
+                return (
+                  <div key={kind}>
+                    <h3 className="text-sm font-semibold text-slate-900 dark:text-white mb-2">{label} ({ofKind.length})</h3>
+                    <ul className="space-y-2">
+                      {ofKind.map(match => {
+                        const segment = data.segments[match.segmentIndex];
+                        return (
+                          <li
+                            key={match.id}
+                            className={`flex items-start gap-3 text-sm ${match.status === 'rejected' ? 'opacity-60' : ''}`}
+                          >
+                            <button
+                              onClick={() => onJump(segment.startSec)}
+                              className="font-mono text-xs pt-0.5 text-indigo-600 dark:text-indigo-400 hover:underline focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded"
+                              aria-label={`Go to ${formatClock(segment.startSec)}`}
+                            >
+                              {formatClock(segment.startSec)}
+                            </button>
+                            <span className="flex-1 min-w-0 break-words">
+                              <Snippet text={segment[match.field] ?? ''} start={match.start} end={match.end} />
+                              <span className="ml-2 text-xs text-slate-400 dark:text-slate-500">
+                                {[match.field === 'translation' && 'translation', match.source === 'model' && 'model'].filter(Boolean).join(' · ')}
+                              </span>
+                            </span>
+                            <span className="flex items-center gap-1">
+                              <VerdictButton
+                                tone="accept"
+                                label="Accept: redact this"
+                                active={match.status === 'accepted'}
+                                onClick={() => setStatus([match.id], match.status === 'accepted' ? 'pending' : 'accepted')}
+                              />
+                              <VerdictButton
+                                tone="reject"
+                                label="Reject: keep this"
+                                active={match.status === 'rejected'}
+                                onClick={() => setStatus([match.id], match.status === 'rejected' ? 'pending' : 'rejected')}
+                              />
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                );
+              })}
+
+              {accepted > 0 && (
+                <div className="flex flex-wrap items-center gap-3 pt-2 border-t border-slate-100 dark:border-slate-700">
+                  <Button
+                    variant="secondary"
+                    onClick={() => onChange(redactTranscript(data))}
+                    icon={<Eraser size={16} />}
+                    className="text-sm"
+                  >
+                    Apply to Transcript
+                  </Button>
+                  {audio && bleepSpans.length > 0 && (
+                    <Button
+                      variant="secondary"
+                      onClick={handleBleep}
+                      isLoading={isBleeping}
+                      icon={<AudioLines size={16} />}
+                      className="text-sm"
+                    >
+                      Download Bleeped Audio
+                    </Button>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RedactionPanel;
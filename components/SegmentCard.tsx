@@ -0,0 +1,362 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useRef, forwardRef } from 'react';
+import {
+  User, Clock, Globe, Languages, AlertTriangle, TrendingUp, TrendingDown, Minus, Eye,
+  Scissors, Merge, Trash2, Plus, Radio,
+} from 'lucide-react';
+import { TranscriptionSegment, Emotion, WordTiming } from '../types';
+import { SegmentPatch } from '../services/transcriptEditing';
+import { EMOTIONS, DEFAULT_EMOTION, getEmotion } from '../services/emotions';
+import { findActiveWordIndex, isLowConfidence, LOW_CONFIDENCE } from '../services/wordTimings';
+import { SearchField, findMatches } from '../services/transcriptSearch';
+import HighlightedText from './HighlightedText';
+import { formatClock, formatTimestampRange, parseClock } from '../utils/time';
+
+/**
+ * Speaker colours are hex values rather than Tailwind classes, so the badge
+ * tints itself with alpha suffixes that read well on both themes.
+ */
+export const speakerBadgeStyle = (color: string): React.CSSProperties => ({
+  color,
+  backgroundColor: `${color}1a`,
+  borderColor: `${color}40`,
+});
+
+/** Colour, icon and confidence come from the emotion's shared definition. */
+export const getEmotionBadge = (emotion?: Emotion, confidence?: number) => {
+  if (!emotion) return null;
+  const { color, icon: Icon } = getEmotion(emotion);
+  return (
+    <div
+      className="flex items-center px-2 py-1 rounded border"
+      style={speakerBadgeStyle(color)}
+      title={confidence !== undefined ? `${Math.round(confidence * 100)}% confident` : undefined}
+    >
+      <Icon size={14} className="mr-1.5" />
+      {emotion}
+      {confidence !== undefined && <span className="ml-1.5 text-xs opacity-70">{Math.round(confidence * 100)}%</span>}
+    </div>
+  );
+};
+
+// Scores within this distance of zero read as neutral.
+const NEUTRAL_SENTIMENT = 0.15;
+
+const getSentimentBadge = (sentiment: number) => {
+  const [Icon, className] = sentiment > NEUTRAL_SENTIMENT
+    ? [TrendingUp, 'text-green-700 dark:text-green-300']
+    : sentiment < -NEUTRAL_SENTIMENT
+      ? [TrendingDown, 'text-red-700 dark:text-red-300']
+      : [Minus, 'text-slate-600 dark:text-slate-300'];
+  return (
+    <div className={`flex items-center bg-slate-100 dark:bg-slate-700 px-2 py-1 rounded ${className}`} title="Sentiment, from -1 to 1">
+      <Icon size={14} className="mr-1.5" />
+      {sentiment > 0 ? '+' : ''}{sentiment.toFixed(2)}
+    </div>
+  );
+};
+
+export interface SegmentEditHandlers {
+  onChange: (patch: SegmentPatch, coalesceKey?: string) => void;
+  onSplit: (offset: number) => void;
+  onMergeNext?: () => void;
+  onDelete: () => void;
+  onInsertAfter: () => void;
+}
+
+export interface SegmentHighlight {
+  query: string;
+  /** The match currently selected in the search bar, if it is in this segment. */
+  active?: { field: SearchField; start: number };
+}
+
+interface SegmentCardProps {
+  segment: TranscriptionSegment;
+  index: number;
+  isActive: boolean;
+  speakerColor: string;
+  /** Known speaker names, suggested when reassigning the segment. */
+  speakers: string[];
+  onSeek?: (seconds: number) => void;
+  /** Present when the transcript is in edit mode. */
+  edit?: SegmentEditHandlers;
+  highlight?: SegmentHighlight;
+  /** Language the translation is in, for its heading. */
+  translationLanguage?: string;
+  /** Playback position while this segment is playing; highlights the current word. */
+  playheadSec?: number;
+}
+
+const inputStyles = "bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded px-2 py-1 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+/**
+ * A clock input that only commits on blur or Enter, and reverts when the
+ * text cannot be read as a time.
+ */
+const TimeField: React.FC<{ value: number; label: string; onCommit: (seconds: number) => void }> = ({ value, label, onCommit }) => {
+  const [draft, setDraft] = useState(formatClock(value, { ms: true }));
+
+  const commit = () => {
+    const parsed = parseClock(draft);
+    if (parsed === null) {
+      setDraft(formatClock(value, { ms: true }));
+    } else if (parsed !== value) {
+      onCommit(parsed);
+    }
+  };
+
+  return (
+    <input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      aria-label={label}
+      className={`${inputStyles} w-28 font-mono text-xs`}
+    />
+  );
+};
+
+const SegmentCard = forwardRef<HTMLDivElement, SegmentCardProps>(({ segment, index, isActive, speakerColor, speakers, onSeek, edit, highlight, translationLanguage, playheadSec }, ref) => {
+  const cursorRef = useRef(0);
+  const range = formatTimestampRange(segment.startSec, segment.endSec);
+  const lowConfidenceCount = segment.words?.filter(isLowConfidence).length ?? 0;
+
+  // Word timings drive karaoke highlighting and click-to-seek; search
+  // highlighting works on the plain text, so it takes over while searching.
+  const renderWords = (words: WordTiming[]) => {
+    const activeWord = playheadSec !== undefined ? findActiveWordIndex(words, playheadSec) : -1;
+    return words.map((word, i) => {
+      const confidence = word.confidence !== undefined ? ` · ${Math.round(word.confidence * 100)}% confident` : '';
+      const shade = i === activeWord
+        ? 'bg-indigo-600 text-white'
+        : isLowConfidence(word)
+          ? 'bg-amber-100 dark:bg-amber-900/40 underline decoration-dotted decoration-amber-500'
+          : onSeek ? 'hover:bg-indigo-100 dark:hover:bg-indigo-900/50' : '';
+      return (
+        <React.Fragment key={i}>
+          {i > 0 && ' '}
+          <span
+            onClick={onSeek ? () => onSeek(word.startSec) : undefined}
+            title={`${formatClock(word.startSec, { ms: true })}${confidence}`}
+            className={`rounded transition-colors ${onSeek ? 'cursor-pointer' : ''} ${shade}`}
+          >
+            {word.text}
+          </span>
+        </React.Fragment>
+      );
+    });
+  };
+
+  const renderText = (field: SearchField) => {
+    const text = segment[field] ?? '';
+    if (!highlight) return text;
+    return (
+      <HighlightedText
+        text={text}
+        ranges={findMatches(text, highlight.query)}
+        activeStart={highlight.active?.field === field ? highlight.active.start : undefined}
+      />
+    );
+  };
+
+  const trackCursor = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    cursorRef.current = e.currentTarget.selectionStart;
+  };
+
+  const actionButton = (label: string, icon: React.ReactNode, onClick?: () => void, danger = false) => (
+    <button
+      onClick={onClick}
+      disabled={!onClick}
+      title={label}
+      aria-label={label}
+      className={`p-1.5 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-40 disabled:cursor-not-allowed ${
+        danger
+          ? 'text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:text-red-400 dark:hover:bg-red-900/20'
+          : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:text-indigo-300 dark:hover:bg-indigo-900/30'
+      }`}
+    >
+      {icon}
+    </button>
+  );
+
+  return (
+    <div
+      ref={ref}
+      data-transcript-editor
+      className={`bg-white dark:bg-slate-800 border rounded-xl p-5 hover:shadow-md transition-all duration-300 ${segment.provisional ? 'border-dashed opacity-80' : ''} ${
+        isActive
+          ? 'border-indigo-400 dark:border-indigo-500 ring-2 ring-indigo-200 dark:ring-indigo-900'
+          : 'border-slate-200 dark:border-slate-700'
+      }`}
+    >
+      <div className="flex flex-wrap items-center gap-3 mb-3 text-sm text-slate-500 dark:text-slate-400">
+        {edit ? (
+          <>
+            <input
+              value={segment.speaker}
+              onChange={(e) => edit.onChange({ speaker: e.target.value }, `speaker-${index}`)}
+              list={`speakers-${index}`}
+              aria-label="Speaker"
+              className={`${inputStyles} w-36 font-semibold`}
+              style={{ color: speakerColor }}
+            />
+            <datalist id={`speakers-${index}`}>
+              {speakers.map(name => <option key={name} value={name} />)}
+            </datalist>
+            <div className="flex items-center space-x-1">
+              <TimeField
+                key={`start-${segment.startSec}`}
+                value={segment.startSec}
+                label="Start time"
+                onCommit={(startSec) => edit.onChange({ startSec })}
+              />
+              <span>–</span>
+              <TimeField
+                key={`end-${segment.endSec}`}
+                value={segment.endSec}
+                label="End time"
+                onCommit={(endSec) => edit.onChange({ endSec })}
+              />
+            </div>
+            <select
+              value={segment.emotion ?? DEFAULT_EMOTION}
+              onChange={(e) => edit.onChange({ emotion: e.target.value, emotionConfidence: undefined })}
+              aria-label="Emotion"
+              className={inputStyles}
+            >
+              {segment.emotion && !EMOTIONS.some(({ label }) => label === segment.emotion) && (
+                <option value={segment.emotion}>{segment.emotion}</option>
+              )}
+              {EMOTIONS.map(({ label }) => (
+                <option key={label} value={label}>{label}</option>
+              ))}
+            </select>
+            <div className="flex items-center ml-auto">
+              {actionButton('Split at cursor', <Scissors size={16} />, () => edit.onSplit(cursorRef.current))}
+              {actionButton('Merge with next segment', <Merge size={16} />, edit.onMergeNext)}
+              {actionButton('Insert segment after', <Plus size={16} />, edit.onInsertAfter)}
+              {actionButton('Delete segment', <Trash2 size={16} />, edit.onDelete, true)}
+            </div>
+          </>
+        ) : (
+          <>
+            <div
+              className="flex items-center font-semibold px-2 py-1 rounded border"
+              style={speakerBadgeStyle(speakerColor)}
+            >
+              <User size={14} className="mr-1.5" />
+              {segment.speaker}
+            </div>
+            {onSeek ? (
+              <button
+                onClick={() => onSeek(segment.startSec)}
+                className="flex items-center bg-slate-100 dark:bg-slate-700 px-2 py-1 rounded hover:bg-indigo-100 dark:hover:bg-indigo-900/50 hover:text-indigo-700 dark:hover:text-indigo-300 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                aria-label={`Play from ${range}`}
+              >
+                <Clock size={14} className="mr-1.5" />
+                {range}
+              </button>
+            ) : (
+              <div className="flex items-center bg-slate-100 dark:bg-slate-700 px-2 py-1 rounded">
+                <Clock size={14} className="mr-1.5" />
+                {range}
+              </div>
+            )}
+            <div className="flex items-center bg-slate-100 dark:bg-slate-700 px-2 py-1 rounded">
+              <Globe size={14} className="mr-1.5" />
+              {segment.language}
+            </div>
+            {segment.emotion && getEmotionBadge(segment.emotion, segment.emotionConfidence)}
+            {segment.sentiment !== undefined && getSentimentBadge(segment.sentiment)}
+            {lowConfidenceCount > 0 && (
+              <div
+                className="flex items-center bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 px-2 py-1 rounded border border-amber-100 dark:border-amber-800"
+                title={`Words below ${Math.round(LOW_CONFIDENCE * 100)}% confidence are shaded`}
+              >
+                <Eye size={14} className="mr-1.5" />
+                {lowConfidenceCount} to review
+              </div>
+            )}
+            {segment.provisional && (
+              <div
+                className="flex items-center bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-300 px-2 py-1 rounded border border-red-100 dark:border-red-800"
+                title="Transcribed live; the final pass may change it"
+              >
+                <Radio size={14} className="mr-1.5" />
+                Provisional
+              </div>
+            )}
+            {segment.warnings && segment.warnings.length > 0 && (
+              <div
+                className="flex items-center bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 px-2 py-1 rounded border border-amber-100 dark:border-amber-800"
+                title={segment.warnings.join('\n')}
+              >
+                <AlertTriangle size={14} className="mr-1.5" />
+                Repaired
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {segment.warnings && segment.warnings.length > 0 && (
+        <ul className="mb-3 text-xs text-amber-700 dark:text-amber-300 space-y-0.5">
+          {segment.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+        </ul>
+      )}
+
+      {edit ? (
+        <textarea
+          value={segment.content}
+          onChange={(e) => {
+            trackCursor(e);
+            edit.onChange({ content: e.target.value }, `content-${index}`);
+          }}
+          onSelect={trackCursor}
+          onClick={trackCursor}
+          onKeyUp={trackCursor}
+          rows={Math.max(2, Math.ceil(segment.content.length / 80))}
+          placeholder="Segment text"
+          aria-label="Segment text"
+          className={`${inputStyles} w-full leading-relaxed resize-y`}
+        />
+      ) : (
+        <p className="text-slate-800 dark:text-slate-200 leading-relaxed whitespace-pre-wrap">
+          {segment.words && segment.words.length > 0 && !highlight ? renderWords(segment.words) : renderText('content')}
+        </p>
+      )}
+
+      {(segment.translation || edit) && (
+        <div className="mt-4 pt-3 border-t border-slate-100 dark:border-slate-700 bg-slate-50/50 dark:bg-slate-900/30 -mx-5 -mb-5 px-5 pb-5 rounded-b-xl">
+           <div className="flex items-center text-xs font-semibold text-indigo-600 dark:text-indigo-300 mb-1.5 uppercase tracking-wide pt-2">
+              <Languages size={14} className="mr-1.5" />
+              {translationLanguage ? `${translationLanguage} Translation` : 'Translation'}
+           </div>
+           {edit ? (
+             <textarea
+               value={segment.translation ?? ''}
+               onChange={(e) => edit.onChange({ translation: e.target.value }, `translation-${index}`)}
+               rows={2}
+               placeholder="No translation"
+               aria-label="Translation"
+               className={`${inputStyles} w-full italic leading-relaxed resize-y`}
+             />
+           ) : (
+             <p className="text-slate-600 dark:text-slate-400 italic leading-relaxed">
+               {renderText('translation')}
+             </p>
+           )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+SegmentCard.displayName = 'SegmentCard';
+
+export default SegmentCard;
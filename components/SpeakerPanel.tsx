@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Users, Pencil, Check, X } from 'lucide-react';
+import { TranscriptionResponse } from '../types';
+import { getSpeakerStats, renameSpeaker, mergeSpeakers } from '../services/speakers';
+import { formatClock } from '../utils/time';
+
+interface SpeakerPanelProps {
+  data: TranscriptionResponse;
+  /** Receives the transcript after a rename or merge; read-only without it. */
+  onChange?: (next: TranscriptionResponse) => void;
+}
+
+const SpeakerPanel: React.FC<SpeakerPanelProps> = ({ data, onChange }) => {
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const stats = getSpeakerStats(data);
+  const totalTalkTime = stats.reduce((total, speaker) => total + speaker.talkTimeSec, 0);
+
+  if (stats.length === 0) return null;
+
+  const startRename = (name: string) => {
+    setRenaming(name);
+    setDraft(name);
+  };
+
+  const commitRename = () => {
+    if (renaming && onChange && draft.trim()) onChange(renameSpeaker(data, renaming, draft));
+    setRenaming(null);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl p-6 shadow-sm transition-colors duration-300">
+      <h2 className="flex items-center text-lg font-semibold text-slate-900 dark:text-white mb-4">
+        <Users size={18} className="mr-2 text-indigo-600 dark:text-indigo-400" />
+        Speakers
+      </h2>
+      <ul className="space-y-3">
+        {stats.map(speaker => (
+          <li key={speaker.name} className="flex flex-wrap items-center gap-3 text-sm">
+            <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: speaker.color }} />
+
+            {renaming === speaker.name ? (
+              <div className="flex items-center space-x-1">
+                <input
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenaming(null);
+                  }}
+                  autoFocus
+                  aria-label={`New name for ${speaker.name}`}
+                  className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded px-2 py-1 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <button onClick={commitRename} className="p-1 text-slate-400 hover:text-green-600 dark:hover:text-green-400" aria-label="Save name">
+                  <Check size={16} />
+                </button>
+                <button onClick={() => setRenaming(null)} className="p-1 text-slate-400 hover:text-red-500 dark:hover:text-red-400" aria-label="Cancel rename">
+                  <X size={16} />
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-center font-semibold" style={{ color: speaker.color }}>
+                {speaker.name}
+                {onChange && (
+                  <button
+                    onClick={() => startRename(speaker.name)}
+                    className="ml-1 p-1 text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-300"
+                    aria-label={`Rename ${speaker.name}`}
+                  >
+                    <Pencil size={14} />
+                  </button>
+                )}
+              </div>
+            )}
+
+            <span className="text-slate-500 dark:text-slate-400">
+              {speaker.segmentCount} {speaker.segmentCount === 1 ? 'segment' : 'segments'} · {formatClock(speaker.talkTimeSec)}
+              {totalTalkTime > 0 && ` (${Math.round((speaker.talkTimeSec / totalTalkTime) * 100)}%)`}
+            </span>
+
+            {onChange && stats.length > 1 && (
+              <select
+                value=""
+                onChange={(e) => e.target.value && onChange(mergeSpeakers(data, [speaker.name], e.target.value))}
+                aria-label={`Merge ${speaker.name} into another speaker`}
+                className="ml-auto bg-transparent border border-slate-200 dark:border-slate-600 rounded px-2 py-1 text-xs text-slate-600 dark:text-slate-300 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="">Merge into…</option>
+                {stats.filter(other => other.name !== speaker.name).map(other => (
+                  <option key={other.name} value={other.name} className="dark:bg-slate-900">{other.name}</option>
+                ))}
+              </select>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SpeakerPanel;
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { MonitorSpeaker, Square, AlertCircle } from 'lucide-react';
+import Button from './Button';
+import { AudioData } from '../types';
+import { CaptureState, IDLE_CAPTURE_STATE } from '../services/extension/messages';
+import {
+  startTabCapture, stopTabCapture, clearTabCapture, getCaptureState, subscribeCaptureState,
+} from '../services/extension/bridge';
+import { takePendingCapture } from '../services/transcriptLibrary';
+import { blobToBase64 } from '../services/audioProcessing';
+import { formatClock } from '../utils/time';
+
+interface TabCaptureRecorderProps {
+  onAudioCaptured: (audioData: AudioData) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Records the current tab from the extension's offscreen document, so the
+ * recording keeps going when the side panel is closed. A recording that
+ * finished while the panel was closed is picked up the next time it opens.
+ */
+const TabCaptureRecorder: React.FC<TabCaptureRecorderProps> = ({ onAudioCaptured, disabled }) => {
+  const [state, setState] = useState<CaptureState>(IDLE_CAPTURE_STATE);
+  const [now, setNow] = useState(Date.now());
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Read through a ref so the storage subscription is not torn down on every render.
+  const onCapturedRef = useRef(onAudioCaptured);
+  onCapturedRef.current = onAudioCaptured;
+
+  const collect = useCallback(async () => {
+    const blob = await takePendingCapture();
+    await clearTabCapture();
+    if (!blob) return;
+    onCapturedRef.current({
+      blob,
+      base64: await blobToBase64(blob),
+      mimeType: blob.type,
+    });
+  }, []);
+
+  const handleState = useCallback((next: CaptureState) => {
+    setState(next);
+    if (next.error) setError(next.error);
+    if (next.status === 'saved') collect().catch(err => console.error("Failed to load tab recording:", err));
+  }, [collect]);
+
+  useEffect(() => {
+    getCaptureState().then(handleState).catch(console.error);
+    return subscribeCaptureState(handleState);
+  }, [handleState]);
+
+  useEffect(() => {
+    if (state.status !== 'recording') return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [state.status]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "The tab could not be recorded.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const isRecording = state.status === 'recording';
+
+  return (
+    <div className="flex flex-col items-center p-6 bg-white dark:bg-slate-800 border-2 border-dashed border-indigo-100 dark:border-slate-700 rounded-2xl transition-colors duration-300">
+      <MonitorSpeaker size={32} className={isRecording ? 'text-red-500 dark:text-red-400 animate-pulse mb-3' : 'text-indigo-500 dark:text-indigo-400 mb-3'} />
+      {isRecording ? (
+        <div className="text-center mb-4">
+          <h3 className="text-lg font-semibold text-slate-800 dark:text-white">Recording tab...</h3>
+          {state.tabTitle && <p className="text-sm text-slate-500 dark:text-slate-400 truncate max-w-xs">{state.tabTitle}</p>}
+          {state.startedAt && (
+            <p className="text-2xl font-mono text-slate-600 dark:text-slate-300 mt-2">
+              {formatClock((now - state.startedAt) / 1000)}
+            </p>
+          )}
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">You can close this panel; recording continues in the background.</p>
+        </div>
+      ) : (
+        <div className="text-center mb-4">
+          <h3 className="text-lg font-semibold text-slate-800 dark:text-white">Record This Tab</h3>
+          <p className="text-slate-500 dark:text-slate-400 text-sm mt-1">Capture the audio playing in the current tab, such as a call or video.</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 px-4 py-2 rounded-lg mb-4 text-sm">
+          <AlertCircle size={16} className="mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {isRecording ? (
+        <Button
+          onClick={() => run(stopTabCapture)}
+          variant="danger"
+          isLoading={isBusy}
+          icon={<Square size={16} fill="currentColor" />}
+          className="w-full max-w-xs"
+        >
+          Stop Tab Recording
+        </Button>
+      ) : (
+        <Button
+          onClick={() => run(startTabCapture)}
+          disabled={disabled || state.status === 'saved'}
+          isLoading={isBusy}
+          className="w-full max-w-xs"
+        >
+          Record Tab
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default TabCaptureRecorder;
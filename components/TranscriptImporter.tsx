@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useRef } from 'react';
+import { FileText, FileAudio, AlertTriangle, X } from 'lucide-react';
+import Button from './Button';
+import { AudioData, TranscriptionResponse } from '../types';
+import { importTranscriptFile, ImportResult, IMPORT_ACCEPT } from '../services/transcriptImport';
+import { blobToBase64 } from '../services/audioProcessing';
+
+interface TranscriptImporterProps {
+  onImported: (response: TranscriptionResponse, audio: AudioData | null) => void;
+  disabled?: boolean;
+}
+
+const TranscriptImporter: React.FC<TranscriptImporterProps> = ({ onImported, disabled }) => {
+  const [transcriptName, setTranscriptName] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [audioFile, setAudioFile] = useState<File | null>(null);
+  const [isOpening, setIsOpening] = useState(false);
+  const transcriptInputRef = useRef<HTMLInputElement>(null);
+  const audioInputRef = useRef<HTMLInputElement>(null);
+
+  const handleTranscriptChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setTranscriptName(file.name);
+    setResult(await importTranscriptFile(file));
+  };
+
+  const handleAudioChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (!file.type.startsWith('audio/') && !file.type.startsWith('video/')) {
+      alert("Please upload a valid audio file.");
+      return;
+    }
+    setAudioFile(file);
+  };
+
+  const handleClearTranscript = () => {
+    setTranscriptName(null);
+    setResult(null);
+    if (transcriptInputRef.current) transcriptInputRef.current.value = "";
+  };
+
+  const handleClearAudio = () => {
+    setAudioFile(null);
+    if (audioInputRef.current) audioInputRef.current.value = "";
+  };
+
+  const handleOpen = async () => {
+    if (!result) return;
+    setIsOpening(true);
+    try {
+      const audio = audioFile
+        ? { blob: audioFile, base64: await blobToBase64(audioFile), mimeType: audioFile.type, fileName: audioFile.name }
+        : null;
+      onImported(result.response, audio);
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  const segmentCount = result?.response.segments.length ?? 0;
+
+  const renderPicker = (
+    label: string,
+    hint: string,
+    icon: React.ReactNode,
+    name: string | null,
+    onPick: () => void,
+    onClear: () => void
+  ) => (
+    <div className="flex items-center justify-between bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl p-4 transition-colors duration-300">
+      <div className="flex items-center space-x-3 min-w-0">
+        <div className="p-2.5 bg-indigo-100 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-400 rounded-lg">
+          {icon}
+        </div>
+        <div className="min-w-0">
+          <p className="font-medium text-slate-800 dark:text-slate-200 truncate">{name ?? label}</p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">{hint}</p>
+        </div>
+      </div>
+      {name ? (
+        <button
+          onClick={onClear}
+          className="p-2 text-slate-400 dark:text-slate-500 hover:text-red-500 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-red-500"
+          disabled={disabled}
+          aria-label={`Remove ${label.toLowerCase()}`}
+        >
+          <X size={18} />
+        </button>
+      ) : (
+        <Button variant="secondary" onClick={onPick} disabled={disabled}>Choose</Button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="w-full space-y-4">
+      <input ref={transcriptInputRef} type="file" className="hidden" accept={IMPORT_ACCEPT} onChange={handleTranscriptChange} disabled={disabled} />
+      <input ref={audioInputRef} type="file" className="hidden" accept="audio/*,video/*" onChange={handleAudioChange} disabled={disabled} />
+
+      {renderPicker(
+        'Transcript file',
+        result ? `${segmentCount} segment${segmentCount === 1 ? '' : 's'} found` : 'SRT, VTT or EchoScript JSON',
+        <FileText size={20} />,
+        transcriptName,
+        () => transcriptInputRef.current?.click(),
+        handleClearTranscript
+      )}
+      {renderPicker(
+        'Audio file (optional)',
+        audioFile ? 'Will be available for playback' : 'Enables playback and click-to-seek',
+        <FileAudio size={20} />,
+        audioFile?.name ?? null,
+        () => audioInputRef.current?.click(),
+        handleClearAudio
+      )}
+
+      {result && result.issues.length > 0 && (
+        <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-4 text-amber-800 dark:text-amber-300 text-sm">
+          <div className="flex items-center font-medium mb-2">
+            <AlertTriangle size={16} className="mr-2 flex-shrink-0" />
+            {result.issues.length} {result.issues.length === 1 ? 'problem' : 'problems'} found while reading the file
+          </div>
+          <ul className="ml-6 list-disc space-y-1 max-h-48 overflow-y-auto">
+            {result.issues.map((issue, i) => (
+              <li key={i}>
+                {issue.line !== undefined && <span className="font-mono mr-1">Line {issue.line}:</span>}
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {result && (
+        <div className="flex justify-end pt-2">
+          <Button
+            onClick={handleOpen}
+            isLoading={isOpening}
+            disabled={disabled || segmentCount === 0}
+            icon={<FileText size={16} />}
+            className="w-full sm:w-auto"
+          >
+            Open Transcript
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptImporter;
@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Search, FolderOpen, Pencil, Trash2, HardDrive, VolumeX, Check, X, FileAudio } from 'lucide-react';
+import Button from './Button';
+import {
+  listEntries, updateEntry, deleteEntry, evictAudio, getStorageUsage, LibraryEntry, StorageUsage,
+} from '../services/transcriptLibrary';
+import { formatBytes } from '../utils/format';
+import { formatClock } from '../utils/time';
+
+interface TranscriptLibraryProps {
+  onOpen: (entry: LibraryEntry) => Promise<void> | void;
+  /** Id of the transcript currently open, if it came from the library. */
+  activeId?: string | null;
+}
+
+const matchesQuery = (entry: LibraryEntry, query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return (
+    entry.title.toLowerCase().includes(needle) ||
+    (entry.sourceFileName ?? '').toLowerCase().includes(needle) ||
+    entry.transcript.summary.toLowerCase().includes(needle) ||
+    entry.transcript.segments.some(segment => segment.content.toLowerCase().includes(needle))
+  );
+};
+
+const TranscriptLibrary: React.FC<TranscriptLibraryProps> = ({ onOpen, activeId }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [list, storage] = await Promise.all([listEntries(), getStorageUsage()]);
+      setEntries(list);
+      setUsage(storage);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load library:", err);
+      setError("Could not open the local library. Storage may be disabled in this browser.");
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Reports a failed change; the list is left as it was so the action can be retried.
+  const runChange = async (change: () => Promise<unknown>, failure: string) => {
+    try {
+      await change();
+    } catch (err) {
+      console.error(failure, err);
+      setError(failure);
+      return false;
+    }
+    refresh();
+    return true;
+  };
+
+  const commitRename = async (id: string) => {
+    const title = draft.trim();
+    if (title && !(await runChange(() => updateEntry(id, { title }), "Could not rename the transcript."))) return;
+    setRenamingId(null);
+  };
+
+  const handleOpen = async (entry: LibraryEntry) => {
+    try {
+      await onOpen(entry);
+    } catch (err) {
+      console.error("Failed to open transcript:", err);
+      setError("Could not open the transcript.");
+    }
+  };
+
+  const handleDelete = async (entry: LibraryEntry) => {
+    if (!window.confirm(`Delete "${entry.title}" and its audio? This cannot be undone.`)) return;
+    await runChange(() => deleteEntry(entry.id), "Could not delete the transcript.");
+  };
+
+  const handleEvict = async (entry: LibraryEntry) => {
+    await runChange(() => evictAudio(entry.id), "Could not remove the audio.");
+  };
+
+  const visible = entries.filter(entry => matchesQuery(entry, query));
+
+  return (
+    <div className="space-y-4">
+      {usage && (
+        <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl p-4 text-sm text-slate-600 dark:text-slate-300 transition-colors duration-300">
+          <div className="flex items-center justify-between mb-2">
+            <span className="flex items-center font-medium">
+              <HardDrive size={16} className="mr-2" />
+              Storage
+            </span>
+            <span className="text-xs text-slate-500 dark:text-slate-400">
+              Audio {formatBytes(usage.audioBytes)}
+              {usage.usage !== undefined && usage.quota ? ` · ${formatBytes(usage.usage)} of ${formatBytes(usage.quota)} used` : ''}
+            </span>
+          </div>
+          {usage.usage !== undefined && usage.quota ? (
+            <div className="h-2 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-indigo-600 dark:bg-indigo-500"
+                style={{ width: `${Math.min(100, (usage.usage / usage.quota) * 100)}%` }}
+              />
+            </div>
+          ) : null}
+        </div>
+      )}
+
+      <div className="relative">
+        <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search titles and transcripts"
+          aria-label="Search library"
+          className="w-full pl-9 pr-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {!error && visible.length === 0 && (
+        <p className="text-center text-slate-500 dark:text-slate-400 py-10">
+          {entries.length === 0 ? "Transcripts you create are saved here automatically." : "No transcripts match your search."}
+        </p>
+      )}
+
+      <ul className="space-y-3">
+        {visible.map(entry => (
+          <li
+            key={entry.id}
+            className={`bg-white dark:bg-slate-800 border rounded-xl p-4 flex flex-wrap items-center gap-3 transition-colors duration-300 ${
+              entry.id === activeId ? 'border-indigo-400 dark:border-indigo-500' : 'border-slate-200 dark:border-slate-700'
+            }`}
+          >
+            <div className="flex-1 min-w-0">
+              {renamingId === entry.id ? (
+                <div className="flex items-center space-x-1">
+                  <input
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename(entry.id);
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    autoFocus
+                    aria-label="Transcript title"
+                    className="flex-1 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded px-2 py-1 text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  <button onClick={() => commitRename(entry.id)} className="p-1 text-slate-400 hover:text-green-600 dark:hover:text-green-400" aria-label="Save title">
+                    <Check size={16} />
+                  </button>
+                  <button onClick={() => setRenamingId(null)} className="p-1 text-slate-400 hover:text-red-500 dark:hover:text-red-400" aria-label="Cancel rename">
+                    <X size={16} />
+                  </button>
+                </div>
+              ) : (
+                <p className="font-medium text-slate-800 dark:text-slate-200 truncate">{entry.title}</p>
+              )}
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                {new Date(entry.createdAt).toLocaleString()} · {formatClock(entry.durationSec)} · {entry.transcript.segments.length} segments
+                {entry.sourceFileName && ` · ${entry.sourceFileName}`}
+              </p>
+              <p className="flex items-center text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+                <FileAudio size={12} className="mr-1" />
+                {entry.audioSize > 0 ? formatBytes(entry.audioSize) : 'No audio stored'}
+              </p>
+            </div>
+            <div className="flex items-center space-x-1">
+              <Button variant="secondary" onClick={() => handleOpen(entry)} icon={<FolderOpen size={16} />} className="text-sm">
+                Open
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={() => { setRenamingId(entry.id); setDraft(entry.title); }}
+                aria-label={`Rename ${entry.title}`}
+                title="Rename"
+                className="px-2"
+              >
+                <Pencil size={16} />
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={() => handleEvict(entry)}
+                disabled={entry.audioSize === 0}
+                aria-label={`Remove audio for ${entry.title}`}
+                title="Remove audio, keep transcript"
+                className="px-2"
+              >
+                <VolumeX size={16} />
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={() => handleDelete(entry)}
+                aria-label={`Delete ${entry.title}`}
+                title="Delete"
+                className="px-2 hover:text-red-600 dark:hover:text-red-400"
+              >
+                <Trash2 size={16} />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TranscriptLibrary;
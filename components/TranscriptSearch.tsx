@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Search, ChevronUp, ChevronDown, SlidersHorizontal, X } from 'lucide-react';
+import { TranscriptionResponse } from '../types';
+import { SearchFilters, EMPTY_FILTERS, listFacets, hasActiveFilters, toggleFacet } from '../services/transcriptSearch';
+import { formatClock, parseClock } from '../utils/time';
+
+interface TranscriptSearchProps {
+  data: TranscriptionResponse;
+  filters: SearchFilters;
+  onFiltersChange: (filters: SearchFilters) => void;
+  hitCount: number;
+  /** Index of the current hit, or -1 when none is selected. */
+  currentHit: number;
+  onStep: (direction: 1 | -1) => void;
+  visibleCount: number;
+}
+
+const chipStyles = (selected: boolean) =>
+  `px-2.5 py-1 rounded-full text-xs font-medium border transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+    selected
+      ? 'bg-indigo-600 border-indigo-600 text-white'
+      : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:border-indigo-300 dark:hover:border-indigo-500'
+  }`;
+
+/**
+ * A clock input for one end of the time range; empty text clears it.
+ */
+const RangeField: React.FC<{ value: number | null; label: string; onCommit: (seconds: number | null) => void }> = ({ value, label, onCommit }) => {
+  const [draft, setDraft] = useState(value === null ? '' : formatClock(value));
+
+  const commit = () => {
+    if (!draft.trim()) return onCommit(null);
+    const parsed = parseClock(draft);
+    if (parsed === null) setDraft(value === null ? '' : formatClock(value));
+    else onCommit(parsed);
+  };
+
+  return (
+    <input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      placeholder={label === 'From' ? '00:00' : 'end'}
+      aria-label={`${label} time`}
+      className="w-20 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded px-2 py-1 font-mono text-xs text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+    />
+  );
+};
+
+const TranscriptSearch: React.FC<TranscriptSearchProps> = ({
+  data, filters, onFiltersChange, hitCount, currentHit, onStep, visibleCount,
+}) => {
+  const [showFacets, setShowFacets] = useState(false);
+  const facets = listFacets(data);
+  const update = (patch: Partial<SearchFilters>) => onFiltersChange({ ...filters, ...patch });
+  const isFiltering = hasActiveFilters(filters);
+
+  const facetGroup = <T extends string>(label: string, options: T[], selected: T[], key: 'speakers' | 'languages' | 'emotions') =>
+    options.length > 1 && (
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-20 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">{label}</span>
+        {options.map(option => (
+          <button
+            key={option}
+            onClick={() => update({ [key]: toggleFacet(selected, option) })}
+            aria-pressed={selected.includes(option)}
+            className={chipStyles(selected.includes(option))}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+    );
+
+  return (
+    <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl p-3 space-y-3 transition-colors duration-300">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            type="search"
+            value={filters.query}
+            onChange={(e) => update({ query: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                onStep(e.shiftKey ? -1 : 1);
+              }
+            }}
+            placeholder="Search transcript and translations"
+            aria-label="Search transcript"
+            className="w-full pl-9 pr-3 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg text-sm text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+        {filters.query.trim() && (
+          <span className="text-xs text-slate-500 dark:text-slate-400 whitespace-nowrap" aria-live="polite">
+            {hitCount === 0
+              ? 'No matches'
+              : currentHit < 0 ? `${hitCount} ${hitCount === 1 ? 'match' : 'matches'}` : `${currentHit + 1} of ${hitCount}`}
+          </span>
+        )}
+        <button
+          onClick={() => onStep(-1)}
+          disabled={hitCount === 0}
+          className="p-1.5 rounded text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          aria-label="Previous match"
+          title="Previous match (Shift+Enter)"
+        >
+          <ChevronUp size={18} />
+        </button>
+        <button
+          onClick={() => onStep(1)}
+          disabled={hitCount === 0}
+          className="p-1.5 rounded text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          aria-label="Next match"
+          title="Next match (Enter)"
+        >
+          <ChevronDown size={18} />
+        </button>
+        <button
+          onClick={() => setShowFacets(!showFacets)}
+          className={`p-1.5 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+            showFacets
+              ? 'bg-indigo-50 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-300'
+              : 'text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'
+          }`}
+          aria-label="Filters"
+          aria-expanded={showFacets}
+          title="Filters"
+        >
+          <SlidersHorizontal size={18} />
+        </button>
+      </div>
+
+      {showFacets && (
+        <div className="space-y-2 pt-2 border-t border-slate-100 dark:border-slate-700">
+          {facetGroup('Speaker', facets.speakers, filters.speakers, 'speakers')}
+          {facetGroup('Language', facets.languages, filters.languages, 'languages')}
+          {facetGroup('Emotion', facets.emotions, filters.emotions, 'emotions')}
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+            <span className="w-20 font-semibold uppercase tracking-wide">Time</span>
+            <RangeField
+              key={`from-${filters.fromSec}`}
+              value={filters.fromSec}
+              label="From"
+              onCommit={(fromSec) => update({ fromSec })}
+            />
+            <span>–</span>
+            <RangeField
+              key={`to-${filters.toSec}`}
+              value={filters.toSec}
+              label="To"
+              onCommit={(toSec) => update({ toSec })}
+            />
+          </div>
+        </div>
+      )}
+
+      {isFiltering && (
+        <div className="flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
+          <span>Showing {visibleCount} of {data.segments.length} segments</span>
+          <button
+            onClick={() => onFiltersChange(EMPTY_FILTERS)}
+            className="flex items-center hover:text-indigo-600 dark:hover:text-indigo-300"
+          >
+            <X size={14} className="mr-1" />
+            Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptSearch;
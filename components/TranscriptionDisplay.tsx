@@ -3,103 +3,245 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
-import { TranscriptionResponse, Emotion } from '../types';
-import { User, Clock, Globe, Languages, Smile, Frown, AlertCircle, Meh } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { TranscriptionResponse } from '../types';
+import { AlertTriangle, Pencil, Check, Plus } from 'lucide-react';
+import { countWarnings } from '../services/transcriptionValidator';
+import {
+  updateSegment, splitSegment, mergeWithNext, deleteSegment, insertSegment,
+} from '../services/transcriptEditing';
+import { resolveSpeakerColors, listSpeakers } from '../services/speakers';
+import { SearchFilters, EMPTY_FILTERS, searchTranscript } from '../services/transcriptSearch';
+import { findActiveSegmentIndex } from '../utils/timeline';
+import { useAudioPlayback } from '../hooks/useAudioPlayback';
+import { TranscriptAnalyzer } from '../services/providers';
+import AudioPlayer from './AudioPlayer';
+import SegmentCard, { SegmentEditHandlers } from './SegmentCard';
+import SpeakerPanel from './SpeakerPanel';
+import TranscriptSearch from './TranscriptSearch';
+import InsightsPanel from './InsightsPanel';
+import AnalyticsDashboard from './AnalyticsDashboard';
+import RedactionPanel from './RedactionPanel';
+import Button from './Button';
 
 interface TranscriptionDisplayProps {
   data: TranscriptionResponse;
+  /** Original recording; enables the player and click-to-seek when present. */
+  audio?: Blob | null;
+  /** Receives edited transcripts; the transcript is read-only without it. */
+  onChange?: (next: TranscriptionResponse, coalesceKey?: string) => void;
+  /** Enables follow-up analysis and questions about the transcript. */
+  analyzer?: TranscriptAnalyzer | null;
+  /** File name without extension for downloads made from the transcript. */
+  baseName?: string;
 }
 
-const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ data }) => {
-  
-  const getEmotionBadge = (emotion?: Emotion) => {
-    if (!emotion) return null;
-
-    switch (emotion) {
-      case Emotion.Happy:
-        return (
-          <div className="flex items-center bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-300 px-2 py-1 rounded border border-green-100 dark:border-green-800">
-            <Smile size={14} className="mr-1.5" />
-            {emotion}
-          </div>
-        );
-      case Emotion.Sad:
-        return (
-          <div className="flex items-center bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 px-2 py-1 rounded border border-blue-100 dark:border-blue-800">
-            <Frown size={14} className="mr-1.5" />
-            {emotion}
-          </div>
-        );
-      case Emotion.Angry:
-        return (
-          <div className="flex items-center bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 px-2 py-1 rounded border border-red-100 dark:border-red-800">
-            <AlertCircle size={14} className="mr-1.5" />
-            {emotion}
-          </div>
-        );
-      case Emotion.Neutral:
-      default:
-        return (
-          <div className="flex items-center bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 px-2 py-1 rounded border border-slate-200 dark:border-slate-600">
-            <Meh size={14} className="mr-1.5" />
-            {emotion}
-          </div>
-        );
-    }
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT', 'AUDIO'].includes(target.tagName));
+
+// A focused button already handles Space by clicking itself.
+const isButtonTarget = (target: EventTarget | null) => target instanceof HTMLElement && target.closest('button') !== null;
+
+const TranscriptionDisplay: React.FC<TranscriptionDisplayProps> = ({ data, audio, onChange, analyzer, baseName }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const hasWordTimings = useMemo(() => data.segments.some(segment => segment.words && segment.words.length > 0), [data]);
+  const playback = useAudioPlayback(audio, hasWordTimings);
+  const { src, currentTime, isPlaying, seek, togglePlay, stepRate } = playback;
+  const segmentRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+  const [hitIndex, setHitIndex] = useState(-1);
+
+  const search = useMemo(() => searchTranscript(data, filters), [data, filters]);
+  const currentHit = search.hits.length > 0 && hitIndex >= 0 ? Math.min(hitIndex, search.hits.length - 1) : -1;
+  const activeHit = currentHit >= 0 ? search.hits[currentHit] : undefined;
+
+  const activeIndex = src ? findActiveSegmentIndex(data.segments, currentTime) : -1;
+
+  // Keep the segment being played in view.
+  useEffect(() => {
+    if (activeIndex < 0 || !isPlaying) return;
+    segmentRefs.current[activeIndex]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [activeIndex, isPlaying]);
+
+  useEffect(() => {
+    if (!src) return;
+
+    const jumpSegment = (direction: 1 | -1) => {
+      const { segments } = data;
+      const lastStarted = segments.reduce((found, segment, i) => (segment.startSec <= currentTime ? i : found), -1);
+      const target = direction === 1 ? lastStarted + 1 : activeIndex >= 0 ? activeIndex - 1 : lastStarted;
+      if (target < 0 || target >= segments.length) return;
+      seek(segments[target].startSec, false);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+      switch (e.key) {
+        case ' ':
+          if (isButtonTarget(e.target)) return;
+          togglePlay();
+          break;
+        case 'ArrowRight':
+          jumpSegment(1);
+          break;
+        case 'ArrowLeft':
+          jumpSegment(-1);
+          break;
+        case '-':
+        case '_':
+          stepRate(-1);
+          break;
+        case '+':
+        case '=':
+          stepRate(1);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [src, data, activeIndex, currentTime, seek, togglePlay, stepRate]);
+
+  const handleFiltersChange = (next: SearchFilters) => {
+    if (next.query !== filters.query) setHitIndex(-1);
+    setFilters(next);
+  };
+
+  // Moves to the next or previous match, wrapping around, and cues the audio there.
+  const stepHit = (direction: 1 | -1) => {
+    const total = search.hits.length;
+    if (total === 0) return;
+    const next = currentHit < 0
+      ? (direction === 1 ? 0 : total - 1)
+      : (currentHit + direction + total) % total;
+    const { segmentIndex } = search.hits[next];
+    setHitIndex(next);
+    segmentRefs.current[segmentIndex]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    if (src) seek(data.segments[segmentIndex].startSec, false);
+  };
+
+  // Shows the segment playing at `sec`, clearing filters that would hide it.
+  const jumpTo = (sec: number) => {
+    const index = data.segments.reduce((found, segment, i) => (segment.startSec <= sec ? i : found), 0);
+    if (!search.visible.includes(index)) setFilters(EMPTY_FILTERS);
+    requestAnimationFrame(() => segmentRefs.current[index]?.scrollIntoView({ behavior: 'smooth', block: 'center' }));
+    if (src) seek(sec, false);
+  };
+
+  const warningCount = countWarnings(data);
+  const speakerColors = resolveSpeakerColors(data);
+  const speakers = listSpeakers(data);
+  // Transcripts from before the language was configurable were translated to English.
+  const translationLanguage = data.translationLanguage ?? 'English';
+
+  const editHandlers = (index: number): SegmentEditHandlers | undefined => {
+    if (!isEditing || !onChange) return undefined;
+    return {
+      onChange: (patch, coalesceKey) => onChange(updateSegment(data, index, patch), coalesceKey),
+      onSplit: (offset) => onChange(splitSegment(data, index, offset)),
+      onMergeNext: index < data.segments.length - 1 ? () => onChange(mergeWithNext(data, index)) : undefined,
+      onDelete: () => onChange(deleteSegment(data, index)),
+      onInsertAfter: () => onChange(insertSegment(data, index)),
+    };
   };
 
   return (
     <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
-      
-      {/* Summary Section */}
-      <div className="bg-gradient-to-br from-indigo-50 to-white dark:from-slate-800 dark:to-slate-900 border border-indigo-100 dark:border-slate-700 rounded-2xl p-6 shadow-sm transition-colors duration-300">
-        <h2 className="text-lg font-semibold text-indigo-900 dark:text-indigo-200 mb-3">Summary</h2>
-        <p className="text-slate-700 dark:text-slate-300 leading-relaxed">{data.summary}</p>
-      </div>
+
+      {/* Audio Player */}
+      {src && (
+        <div className="sticky top-16 z-[5]">
+          <AudioPlayer playback={playback} />
+        </div>
+      )}
+
+      {/* Validation Warnings */}
+      {warningCount > 0 && (
+        <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-4 text-amber-800 dark:text-amber-300 text-sm">
+          <div className="flex items-center font-medium">
+            <AlertTriangle size={16} className="mr-2 flex-shrink-0" />
+            {warningCount} {warningCount === 1 ? 'issue was' : 'issues were'} found and repaired in the model's response. Affected segments are marked below.
+          </div>
+          {data.warnings && data.warnings.length > 0 && (
+            <ul className="mt-2 ml-6 list-disc space-y-1">
+              {data.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Summary and Insights */}
+      <InsightsPanel data={data} analyzer={analyzer} onChange={onChange} onJump={jumpTo} />
+
+      {/* Speakers */}
+      <SpeakerPanel data={data} onChange={onChange} />
+
+      {/* Analytics */}
+      <AnalyticsDashboard data={data} />
+
+      {/* Personal Data */}
+      <RedactionPanel data={data} audio={audio} baseName={baseName} onChange={onChange} analyzer={analyzer} onJump={jumpTo} />
 
       {/* Segments Section */}
       <div className="space-y-4">
-        <h2 className="text-lg font-semibold text-slate-900 dark:text-white px-1">Detailed Transcript</h2>
+        <div className="flex items-center justify-between px-1">
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Detailed Transcript</h2>
+          {onChange && (
+            <Button
+              variant={isEditing ? 'primary' : 'ghost'}
+              onClick={() => setIsEditing(!isEditing)}
+              icon={isEditing ? <Check size={16} /> : <Pencil size={16} />}
+              className="text-sm"
+            >
+              {isEditing ? 'Done Editing' : 'Edit'}
+            </Button>
+          )}
+        </div>
         
-        {data.segments.map((segment, index) => (
-          <div 
-            key={index} 
-            className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl p-5 hover:shadow-md transition-all duration-300"
-          >
-            <div className="flex flex-wrap items-center gap-3 mb-3 text-sm text-slate-500 dark:text-slate-400">
-              <div className="flex items-center font-semibold text-indigo-600 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/40 px-2 py-1 rounded">
-                <User size={14} className="mr-1.5" />
-                {segment.speaker}
-              </div>
-              <div className="flex items-center bg-slate-100 dark:bg-slate-700 px-2 py-1 rounded">
-                <Clock size={14} className="mr-1.5" />
-                {segment.timestamp}
-              </div>
-              <div className="flex items-center bg-slate-100 dark:bg-slate-700 px-2 py-1 rounded">
-                <Globe size={14} className="mr-1.5" />
-                {segment.language}
-              </div>
-              {segment.emotion && getEmotionBadge(segment.emotion)}
-            </div>
-            
-            <p className="text-slate-800 dark:text-slate-200 leading-relaxed whitespace-pre-wrap">
-              {segment.content}
-            </p>
-
-            {segment.translation && (
-              <div className="mt-4 pt-3 border-t border-slate-100 dark:border-slate-700 bg-slate-50/50 dark:bg-slate-900/30 -mx-5 -mb-5 px-5 pb-5 rounded-b-xl">
-                 <div className="flex items-center text-xs font-semibold text-indigo-600 dark:text-indigo-300 mb-1.5 uppercase tracking-wide pt-2">
-                    <Languages size={14} className="mr-1.5" />
-                    English Translation
-                 </div>
-                 <p className="text-slate-600 dark:text-slate-400 italic leading-relaxed">
-                   {segment.translation}
-                 </p>
-              </div>
-            )}
-          </div>
-        ))}
+        {data.segments.length > 0 && (
+          <TranscriptSearch
+            data={data}
+            filters={filters}
+            onFiltersChange={handleFiltersChange}
+            hitCount={search.hits.length}
+            currentHit={currentHit}
+            onStep={stepHit}
+            visibleCount={search.visible.length}
+          />
+        )}
+
+        {search.visible.map(index => {
+          const segment = data.segments[index];
+          return (
+            <SegmentCard
+              key={index}
+              ref={el => { segmentRefs.current[index] = el; }}
+              segment={segment}
+              index={index}
+              isActive={index === activeIndex}
+              speakerColor={speakerColors[segment.speaker]}
+              speakers={speakers}
+              onSeek={src ? seek : undefined}
+              edit={editHandlers(index)}
+              highlight={filters.query.trim() ? {
+                query: filters.query,
+                active: activeHit?.segmentIndex === index ? { field: activeHit.field, start: activeHit.start } : undefined,
+              } : undefined}
+              translationLanguage={translationLanguage}
+              playheadSec={index === activeIndex ? currentTime : undefined}
+            />
+          );
+        })}
+
+        {isEditing && onChange && data.segments.length === 0 && (
+          <Button variant="secondary" onClick={() => onChange(insertSegment(data, -1))} icon={<Plus size={16} />}>
+            Add Segment
+          </Button>
+        )}
       </div>
     </div>
   );
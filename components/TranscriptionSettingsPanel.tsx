@@ -0,0 +1,295 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { SlidersHorizontal, ChevronDown, ChevronUp } from 'lucide-react';
+import { OutputField, TranscriptStyle } from '../types';
+import { TranscriptionProvider } from '../services/providers';
+import {
+  TranscriptionSettings, TARGET_LANGUAGES, OUTPUT_FIELDS, MAX_TEMPERATURE, parseList,
+} from '../services/transcriptionSettings';
+import { EMOTIONS } from '../services/emotions';
+import { speakerBadgeStyle } from './SegmentCard';
+
+interface TranscriptionSettingsPanelProps {
+  settings: TranscriptionSettings;
+  onChange: (settings: TranscriptionSettings) => void;
+  provider: TranscriptionProvider;
+  disabled?: boolean;
+}
+
+const STYLES: { id: TranscriptStyle; label: string }[] = [
+  { id: 'verbatim', label: 'Verbatim' },
+  { id: 'clean', label: 'Clean read' },
+];
+
+const MAX_SPEAKERS = 10;
+
+const fieldStyles = "w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-600 rounded-lg px-2 py-1.5 text-sm text-slate-800 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+const labelStyles = "block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1";
+
+/**
+ * A comma-separated list field. The typed text is kept as is so separators
+ * are not swallowed mid-word, and only replaced when the list changes elsewhere.
+ */
+const ListField: React.FC<{ id: string; label: string; placeholder: string; value: string[]; onChange: (value: string[]) => void; disabled?: boolean }> = ({
+  id, label, placeholder, value, onChange, disabled,
+}) => {
+  const [draft, setDraft] = useState(value.join(', '));
+
+  // Only outside changes to the list rewrite the text.
+  useEffect(() => {
+    setDraft(current => (parseList(current).join('\n') !== value.join('\n') ? value.join(', ') : current));
+  }, [value]);
+
+  return (
+    <div>
+      <label htmlFor={id} className={labelStyles}>{label}</label>
+      <textarea
+        id={id}
+        value={draft}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          onChange(parseList(e.target.value));
+        }}
+        rows={2}
+        placeholder={placeholder}
+        disabled={disabled}
+        className={`${fieldStyles} resize-y`}
+      />
+    </div>
+  );
+};
+
+/**
+ * Options sent with every transcription request: translation, speaker
+ * hints, vocabulary, style, output fields, emotion labels, instructions
+ * and, where the provider offers them, model and temperature. Collapsed to
+ * a one-line summary by default.
+ */
+const TranscriptionSettingsPanel: React.FC<TranscriptionSettingsPanelProps> = ({ settings, onChange, provider, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const update = (patch: Partial<TranscriptionSettings>) => onChange({ ...settings, ...patch });
+  const toggleField = (field: OutputField) => update({
+    fields: settings.fields.includes(field) ? settings.fields.filter(f => f !== field) : [...settings.fields, field],
+  });
+
+  // Keeps taxonomy order and at least one label.
+  const toggleEmotion = (label: string) => {
+    const next = settings.emotions.includes(label)
+      ? settings.emotions.filter(e => e !== label)
+      : EMOTIONS.map(e => e.label).filter(e => e === label || settings.emotions.includes(e));
+    if (next.length > 0) update({ emotions: next });
+  };
+
+  const models = provider.models ?? [];
+  const model = models.find(m => m.id === settings.model) ?? models[0];
+  const languages = settings.targetLanguage && !TARGET_LANGUAGES.includes(settings.targetLanguage)
+    ? [settings.targetLanguage, ...TARGET_LANGUAGES]
+    : TARGET_LANGUAGES;
+
+  const summary = [
+    settings.targetLanguage ? `Translate to ${settings.targetLanguage}` : 'No translation',
+    settings.speakerCount > 0 ? `${settings.speakerCount} speaker${settings.speakerCount === 1 ? '' : 's'}` : null,
+    settings.vocabulary.length > 0 ? `${settings.vocabulary.length} glossary term${settings.vocabulary.length === 1 ? '' : 's'}` : null,
+    STYLES.find(s => s.id === settings.style)?.label,
+    model?.label,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="border border-slate-200 dark:border-slate-700 rounded-xl transition-colors duration-300">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-4 py-3 text-left focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded-xl"
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center min-w-0">
+          <SlidersHorizontal size={16} className="mr-2 flex-shrink-0 text-indigo-600 dark:text-indigo-400" />
+          <span className="text-sm font-medium text-slate-700 dark:text-slate-200 mr-2">Transcription Options</span>
+          {!isOpen && <span className="text-xs text-slate-500 dark:text-slate-400 truncate">{summary}</span>}
+        </span>
+        {isOpen ? <ChevronUp size={16} className="text-slate-400" /> : <ChevronDown size={16} className="text-slate-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 px-4 pb-4">
+          <div>
+            <label htmlFor="target-language" className={labelStyles}>Translate to</label>
+            <select
+              id="target-language"
+              value={settings.targetLanguage}
+              onChange={(e) => update({ targetLanguage: e.target.value })}
+              disabled={disabled}
+              className={fieldStyles}
+            >
+              <option value="">No translation</option>
+              {languages.map(language => <option key={language} value={language}>{language}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="speaker-count" className={labelStyles}>Expected speakers</label>
+            <select
+              id="speaker-count"
+              value={settings.speakerCount}
+              onChange={(e) => update({ speakerCount: Number(e.target.value) })}
+              disabled={disabled}
+              className={fieldStyles}
+            >
+              <option value={0}>Detect automatically</option>
+              {Array.from({ length: MAX_SPEAKERS }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </div>
+
+          <ListField
+            id="speaker-names"
+            label="Speaker names"
+            placeholder="e.g. Alice, Bob"
+            value={settings.speakerNames}
+            onChange={(speakerNames) => update({ speakerNames })}
+            disabled={disabled}
+          />
+
+          <ListField
+            id="vocabulary"
+            label="Vocabulary"
+            placeholder="Product names, acronyms and jargon, separated by commas"
+            value={settings.vocabulary}
+            onChange={(vocabulary) => update({ vocabulary })}
+            disabled={disabled}
+          />
+
+          <div>
+            <span className={labelStyles}>Style</span>
+            <div className="flex bg-slate-100 dark:bg-slate-900 p-1 rounded-lg" role="radiogroup" aria-label="Transcript style">
+              {STYLES.map(style => (
+                <button
+                  key={style.id}
+                  onClick={() => update({ style: style.id })}
+                  disabled={disabled}
+                  role="radio"
+                  aria-checked={settings.style === style.id}
+                  className={`flex-1 px-2 py-1 rounded-md text-xs font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                    settings.style === style.id
+                      ? 'bg-white dark:bg-slate-700 text-indigo-600 dark:text-indigo-300 shadow-sm'
+                      : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'
+                  }`}
+                >
+                  {style.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <span className={labelStyles}>Include</span>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 py-1.5 text-sm text-slate-600 dark:text-slate-300">
+              {OUTPUT_FIELDS.map(field => (
+                <label key={field.id} className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={settings.fields.includes(field.id)}
+                    onChange={() => toggleField(field.id)}
+                    disabled={disabled}
+                    className="mr-2 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  {field.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {settings.fields.includes('emotion') && (
+            <div className="sm:col-span-2">
+              <span className={labelStyles}>Emotion labels</span>
+              <div className="flex flex-wrap gap-2" role="group" aria-label="Emotion labels the model may use">
+                {EMOTIONS.map(emotion => {
+                  const selected = settings.emotions.includes(emotion.label);
+                  const Icon = emotion.icon;
+                  return (
+                    <button
+                      key={emotion.label}
+                      onClick={() => toggleEmotion(emotion.label)}
+                      disabled={disabled}
+                      aria-pressed={selected}
+                      title={emotion.description}
+                      className={`flex items-center px-2 py-1 rounded border text-xs font-medium transition-opacity focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                        selected ? '' : 'opacity-50 hover:opacity-80'
+                      }`}
+                      style={selected ? speakerBadgeStyle(emotion.color) : undefined}
+                    >
+                      <Icon size={14} className="mr-1.5" />
+                      {emotion.label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="sm:col-span-2">
+            <label htmlFor="instructions" className={labelStyles}>Instructions</label>
+            <textarea
+              id="instructions"
+              value={settings.instructions}
+              onChange={(e) => update({ instructions: e.target.value })}
+              rows={3}
+              placeholder="What the recording is and anything the transcriber should know, e.g. &quot;A weekly engineering stand-up&quot;"
+              disabled={disabled}
+              className={`${fieldStyles} resize-y`}
+            />
+          </div>
+
+          {models.length > 0 && (
+            <div>
+              <label htmlFor="model" className={labelStyles}>Model</label>
+              <select
+                id="model"
+                value={model.id}
+                onChange={(e) => update({ model: e.target.value })}
+                disabled={disabled}
+                className={fieldStyles}
+              >
+                {models.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+              </select>
+            </div>
+          )}
+
+          {models.length > 0 && (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label htmlFor="temperature" className="text-xs font-medium text-slate-500 dark:text-slate-400">
+                  Temperature: {settings.temperature === null ? 'model default' : settings.temperature.toFixed(1)}
+                </label>
+                {settings.temperature !== null && (
+                  <button
+                    onClick={() => update({ temperature: null })}
+                    disabled={disabled}
+                    className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline"
+                  >
+                    Reset
+                  </button>
+                )}
+              </div>
+              <input
+                id="temperature"
+                type="range"
+                min={0}
+                max={MAX_TEMPERATURE}
+                step={0.1}
+                value={settings.temperature ?? 1}
+                onChange={(e) => update({ temperature: Number(e.target.value) })}
+                disabled={disabled}
+                className="w-full accent-indigo-600"
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptionSettingsPanel;
@@ -0,0 +1,227 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useRef, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { AudioRegion, RegionMode, MIN_REGION_SEC, resolveSpans, totalSpanDuration } from '../services/audioRegions';
+import { formatClock } from '../utils/time';
+
+interface WaveformSelectorProps {
+  /** Peak per column, 0 to 1. */
+  peaks: Float32Array;
+  durationSec: number;
+  regions: AudioRegion[];
+  /** Called once a drag finishes, not on every pointer move. */
+  onRegionsChange: (regions: AudioRegion[]) => void;
+  mode: RegionMode;
+  onModeChange: (mode: RegionMode) => void;
+  disabled?: boolean;
+}
+
+type Drag =
+  | { kind: 'create'; id: string; anchor: number }
+  | { kind: 'start' | 'end'; id: string };
+
+const MODES: { id: RegionMode; label: string }[] = [
+  { id: 'include', label: 'Transcribe selection' },
+  { id: 'exclude', label: 'Skip selection' },
+];
+
+// Arrow keys on a handle move it by this much; Shift moves ten times as far.
+const KEY_STEP_SEC = 1;
+
+/**
+ * Draws the file's waveform and lets the user drag out regions to
+ * transcribe or skip. Each region has handles to adjust its edges.
+ */
+const WaveformSelector: React.FC<WaveformSelectorProps> = ({
+  peaks, durationSec, regions, onRegionsChange, mode, onModeChange, disabled,
+}) => {
+  // Regions as shown, including an edit in progress.
+  const [draft, setDraft] = useState<AudioRegion[]>(regions);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const nextIdRef = useRef(0);
+
+  useEffect(() => {
+    setDraft(regions);
+  }, [regions]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    // The bar colour comes from the canvas's text colour so it follows dark mode.
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.fillStyle = getComputedStyle(canvas).color;
+    const barWidth = canvas.width / peaks.length;
+    const middle = canvas.height / 2;
+    peaks.forEach((peak, i) => {
+      const height = Math.max(1, peak * canvas.height);
+      context.fillRect(i * barWidth, middle - height / 2, Math.max(1, barWidth - 1), height);
+    });
+  }, [peaks]);
+
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current!.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return ratio * durationSec;
+  };
+
+  const updateRegion = (list: AudioRegion[], id: string, change: Partial<AudioRegion>) =>
+    list.map(region => (region.id === id ? { ...region, ...change } : region));
+
+  const commit = (list: AudioRegion[]) => {
+    const valid = list.filter(region => region.endSec - region.startSec >= MIN_REGION_SEC);
+    setDraft(valid);
+    onRegionsChange(valid);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled || e.button !== 0) return;
+    const time = timeAt(e.clientX);
+    const id = `region-${nextIdRef.current++}`;
+    dragRef.current = { kind: 'create', id, anchor: time };
+    setDraft([...draft, { id, startSec: time, endSec: time }]);
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handleEdgeDown = (e: React.PointerEvent, id: string, kind: 'start' | 'end') => {
+    if (disabled || e.button !== 0) return;
+    e.stopPropagation();
+    dragRef.current = { kind, id };
+    trackRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const time = timeAt(e.clientX);
+    const region = draft.find(r => r.id === drag.id);
+    if (!region) return;
+
+    if (drag.kind === 'create') {
+      setDraft(updateRegion(draft, drag.id, { startSec: Math.min(drag.anchor, time), endSec: Math.max(drag.anchor, time) }));
+    } else if (drag.kind === 'start') {
+      setDraft(updateRegion(draft, drag.id, { startSec: Math.min(time, region.endSec - MIN_REGION_SEC) }));
+    } else {
+      setDraft(updateRegion(draft, drag.id, { endSec: Math.max(time, region.startSec + MIN_REGION_SEC) }));
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    commit(draft);
+  };
+
+  const handleEdgeKey = (e: React.KeyboardEvent, region: AudioRegion, kind: 'start' | 'end') => {
+    const step = (e.shiftKey ? 10 : 1) * KEY_STEP_SEC;
+    const delta = e.key === 'ArrowLeft' ? -step : e.key === 'ArrowRight' ? step : 0;
+    if (!delta) return;
+    e.preventDefault();
+    const change = kind === 'start'
+      ? { startSec: Math.max(0, Math.min(region.startSec + delta, region.endSec - MIN_REGION_SEC)) }
+      : { endSec: Math.min(durationSec, Math.max(region.endSec + delta, region.startSec + MIN_REGION_SEC)) };
+    commit(updateRegion(draft, region.id, change));
+  };
+
+  const keptSec = totalSpanDuration(resolveSpans(draft, mode, durationSec));
+  const percent = (sec: number) => `${(sec / durationSec) * 100}%`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex bg-slate-100 dark:bg-slate-900 p-1 rounded-lg" role="radiogroup" aria-label="Selection mode">
+          {MODES.map(option => (
+            <button
+              key={option.id}
+              onClick={() => onModeChange(option.id)}
+              disabled={disabled}
+              role="radio"
+              aria-checked={mode === option.id}
+              className={`px-2 py-1 rounded-md text-xs font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                mode === option.id
+                  ? 'bg-white dark:bg-slate-700 text-indigo-600 dark:text-indigo-300 shadow-sm'
+                  : 'text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {draft.length > 0 && (
+          <button
+            onClick={() => commit([])}
+            disabled={disabled}
+            className="text-xs font-medium text-slate-500 hover:text-slate-800 dark:text-slate-400 dark:hover:text-white"
+          >
+            Clear selection
+          </button>
+        )}
+      </div>
+
+      <div
+        ref={trackRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`relative h-20 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden select-none touch-none ${disabled ? 'opacity-60' : 'cursor-crosshair'}`}
+      >
+        <canvas ref={canvasRef} width={1000} height={80} className="absolute inset-0 w-full h-full text-indigo-300 dark:text-indigo-700" />
+        {draft.map(region => (
+          <div
+            key={region.id}
+            className={`absolute inset-y-0 border-x-2 ${
+              mode === 'include'
+                ? 'bg-indigo-500/20 border-indigo-500'
+                : 'bg-red-500/20 border-red-500'
+            }`}
+            style={{ left: percent(region.startSec), width: percent(region.endSec - region.startSec) }}
+          >
+            {(['start', 'end'] as const).map(kind => (
+              <div
+                key={kind}
+                onPointerDown={(e) => handleEdgeDown(e, region.id, kind)}
+                onKeyDown={(e) => handleEdgeKey(e, region, kind)}
+                tabIndex={disabled ? -1 : 0}
+                role="slider"
+                aria-label={`Region ${kind}`}
+                aria-valuemin={0}
+                aria-valuemax={Math.round(durationSec)}
+                aria-valuenow={Math.round(kind === 'start' ? region.startSec : region.endSec)}
+                aria-valuetext={formatClock(kind === 'start' ? region.startSec : region.endSec)}
+                className={`absolute inset-y-0 w-3 cursor-ew-resize focus:outline-none focus:bg-indigo-500/40 ${kind === 'start' ? '-left-1.5' : '-right-1.5'}`}
+              />
+            ))}
+            <button
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => commit(draft.filter(r => r.id !== region.id))}
+              disabled={disabled}
+              className="absolute top-0.5 right-1.5 p-0.5 rounded bg-white/80 dark:bg-slate-800/80 text-slate-500 hover:text-red-500"
+              aria-label="Remove region"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400">
+        <span>
+          {draft.length === 0
+            ? 'Drag across the waveform to mark a region.'
+            : `Transcribing ${formatClock(keptSec)} of ${formatClock(durationSec)}`}
+        </span>
+        <span className="font-mono">{formatClock(durationSec)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default WaveformSelector;
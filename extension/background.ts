@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+  BackgroundMessage, CaptureState, CAPTURE_STATE_KEY, IDLE_CAPTURE_STATE, MessageResponse, sendExtensionMessage,
+} from '../services/extension/messages';
+
+const OFFSCREEN_PATH = 'extension/offscreen.html';
+
+chrome.sidePanel.setPanelBehavior({ openPanelOnActionClick: true }).catch(console.error);
+
+const setCaptureState = (state: CaptureState) => chrome.storage.session.set({ [CAPTURE_STATE_KEY]: state });
+
+const getCaptureState = async (): Promise<CaptureState> => {
+  const stored = await chrome.storage.session.get(CAPTURE_STATE_KEY);
+  return (stored[CAPTURE_STATE_KEY] as CaptureState | undefined) ?? IDLE_CAPTURE_STATE;
+};
+
+const hasOffscreenDocument = async () => {
+  const contexts = await chrome.runtime.getContexts({
+    contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT],
+    documentUrls: [chrome.runtime.getURL(OFFSCREEN_PATH)],
+  });
+  return contexts.length > 0;
+};
+
+/**
+ * The service worker cannot hold a media stream, so recording happens in an
+ * offscreen document that outlives the side panel.
+ */
+const ensureOffscreenDocument = async () => {
+  if (await hasOffscreenDocument()) return;
+  await chrome.offscreen.createDocument({
+    url: OFFSCREEN_PATH,
+    reasons: [chrome.offscreen.Reason.USER_MEDIA],
+    justification: 'Records tab audio for transcription while the side panel is closed.',
+  });
+};
+
+const closeOffscreenDocument = async () => {
+  if (await hasOffscreenDocument()) await chrome.offscreen.closeDocument();
+};
+
+const startTabCapture = async () => {
+  if ((await getCaptureState()).status === 'recording') throw new Error('A tab is already being recorded.');
+
+  const [tab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+  if (!tab?.id) throw new Error('There is no active tab to record.');
+
+  const streamId = await chrome.tabCapture.getMediaStreamId({ targetTabId: tab.id });
+  await ensureOffscreenDocument();
+  await sendExtensionMessage({ target: 'offscreen', type: 'start-recording', streamId });
+  await setCaptureState({ status: 'recording', startedAt: Date.now(), tabTitle: tab.title });
+};
+
+const handleMessage = async (message: BackgroundMessage): Promise<void> => {
+  switch (message.type) {
+    case 'start-tab-capture':
+      return startTabCapture();
+    case 'stop-tab-capture':
+      return sendExtensionMessage({ target: 'offscreen', type: 'stop-recording' });
+    case 'recording-saved':
+      await setCaptureState({ status: 'saved' });
+      return closeOffscreenDocument();
+    case 'recording-failed':
+      await setCaptureState({ status: 'idle', error: message.error });
+      return closeOffscreenDocument();
+    case 'clear-capture':
+      await setCaptureState(IDLE_CAPTURE_STATE);
+      return;
+  }
+};
+
+chrome.runtime.onMessage.addListener((message: BackgroundMessage, _sender, sendResponse: (response: MessageResponse) => void) => {
+  if (message?.target !== 'background') return;
+  handleMessage(message).then(
+    () => sendResponse({ ok: true }),
+    (err: unknown) => sendResponse({ ok: false, error: err instanceof Error ? err.message : String(err) })
+  );
+  // Keeps the channel open for the async response.
+  return true;
+});
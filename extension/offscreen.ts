@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { OffscreenMessage, MessageResponse, sendExtensionMessage } from '../services/extension/messages';
+import { pickRecorderMimeType, baseMimeType } from '../services/audioRecording';
+import { savePendingCapture } from '../services/transcriptLibrary';
+
+let recorder: MediaRecorder | null = null;
+let playback: AudioContext | null = null;
+
+const startRecording = async (streamId: string) => {
+  if (recorder?.state === 'recording') throw new Error('Already recording.');
+
+  // Chrome's tab capture constraints predate the standard ones.
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { mandatory: { chromeMediaSource: 'tab', chromeMediaSourceId: streamId } } as MediaTrackConstraints,
+  });
+
+  // Capturing a tab mutes it, so route the audio back to the speakers.
+  playback = new AudioContext();
+  playback.createMediaStreamSource(stream).connect(playback.destination);
+
+  const chunks: Blob[] = [];
+  const mediaRecorder = new MediaRecorder(stream, { mimeType: pickRecorderMimeType() });
+  recorder = mediaRecorder;
+
+  mediaRecorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  mediaRecorder.onstop = async () => {
+    stream.getTracks().forEach(track => track.stop());
+    playback?.close();
+    playback = null;
+    recorder = null;
+    try {
+      const mimeType = baseMimeType(mediaRecorder.mimeType || 'audio/webm');
+      await savePendingCapture(new Blob(chunks, { type: mimeType }));
+      await sendExtensionMessage({ target: 'background', type: 'recording-saved' });
+    } catch (err) {
+      console.error('Failed to save tab recording:', err);
+      await sendExtensionMessage({
+        target: 'background',
+        type: 'recording-failed',
+        error: 'The recording could not be saved.',
+      });
+    }
+  };
+
+  // Closing the recorded tab ends the track; keep what was captured.
+  stream.getAudioTracks()[0]?.addEventListener('ended', () => {
+    if (mediaRecorder.state !== 'inactive') mediaRecorder.stop();
+  });
+
+  // Slices keep memory flat on long recordings.
+  mediaRecorder.start(1000);
+};
+
+const stopRecording = () => {
+  if (!recorder || recorder.state === 'inactive') throw new Error('Nothing is being recorded.');
+  recorder.stop();
+};
+
+chrome.runtime.onMessage.addListener((message: OffscreenMessage, _sender, sendResponse: (response: MessageResponse) => void) => {
+  if (message?.target !== 'offscreen') return;
+  const run = async () => {
+    if (message.type === 'start-recording') await startRecording(message.streamId);
+    else stopRecording();
+  };
+  run().then(
+    () => sendResponse({ ok: true }),
+    (err: unknown) => sendResponse({ ok: false, error: err instanceof Error ? err.message : String(err) })
+  );
+  return true;
+});
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+// Finest step `currentTime` moves in when precise tracking is on.
+const PRECISE_STEP_SEC = 0.05;
+
+/**
+ * Owns an <audio> element for a blob and exposes its playback state.
+ * Attach `audioRef` to the element and use `src` as its source. With
+ * `precise`, the position is tracked every frame rather than on the few
+ * timeupdate events a second, for word-by-word highlighting.
+ */
+export const useAudioPlayback = (blob?: Blob | null, precise = false) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [src, setSrc] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+
+  useEffect(() => {
+    if (!blob) {
+      setSrc(null);
+      return;
+    }
+    const url = URL.createObjectURL(blob);
+    setSrc(url);
+    return () => URL.revokeObjectURL(url);
+  }, [blob]);
+
+  // Mirror element events into state so the transcript can follow along.
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const onTime = () => setCurrentTime(audio.currentTime);
+    const onPlay = () => setIsPlaying(true);
+    const onPause = () => setIsPlaying(false);
+    const onRate = () => setPlaybackRate(audio.playbackRate);
+
+    audio.addEventListener('timeupdate', onTime);
+    audio.addEventListener('seeked', onTime);
+    audio.addEventListener('play', onPlay);
+    audio.addEventListener('pause', onPause);
+    audio.addEventListener('ended', onPause);
+    audio.addEventListener('ratechange', onRate);
+    return () => {
+      audio.removeEventListener('timeupdate', onTime);
+      audio.removeEventListener('seeked', onTime);
+      audio.removeEventListener('play', onPlay);
+      audio.removeEventListener('pause', onPause);
+      audio.removeEventListener('ended', onPause);
+      audio.removeEventListener('ratechange', onRate);
+    };
+  }, [src]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!precise || !isPlaying || !audio) return;
+    let frame = 0;
+    let last = audio.currentTime;
+    const tick = () => {
+      if (Math.abs(audio.currentTime - last) >= PRECISE_STEP_SEC) {
+        last = audio.currentTime;
+        setCurrentTime(last);
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [src, precise, isPlaying]);
+
+  const seek = useCallback((seconds: number, autoplay = true) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = Math.max(0, seconds);
+    setCurrentTime(audio.currentTime);
+    if (autoplay && audio.paused) audio.play().catch(err => console.error('Playback failed:', err));
+  }, []);
+
+  const togglePlay = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(err => console.error('Playback failed:', err));
+    } else {
+      audio.pause();
+    }
+  }, []);
+
+  /** Moves one step along PLAYBACK_RATES; negative steps slow down. */
+  const stepRate = useCallback((step: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const current = PLAYBACK_RATES.indexOf(audio.playbackRate);
+    const index = Math.min(PLAYBACK_RATES.length - 1, Math.max(0, (current === -1 ? 2 : current) + step));
+    audio.playbackRate = PLAYBACK_RATES[index];
+  }, []);
+
+  const setRate = useCallback((rate: number) => {
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  }, []);
+
+  return { audioRef, src, currentTime, isPlaying, playbackRate, seek, togglePlay, stepRate, setRate };
+};
+
+export type AudioPlayback = ReturnType<typeof useAudioPlayback>;
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useRef } from 'react';
+
+// About 85 ms at 48 kHz; small enough to keep up, large enough not to stutter.
+const BUFFER_SIZE = 4096;
+
+/**
+ * Passes the raw samples of a live stream, downmixed to mono, to
+ * `onSamples` as they arrive. Pass `active = false` while paused so the
+ * samples line up with what MediaRecorder keeps.
+ */
+export const useAudioTap = (
+  stream: MediaStream | null,
+  active: boolean,
+  onSamples?: (samples: Float32Array, sampleRate: number) => void
+) => {
+  // Kept in a ref so a new callback does not restart the audio graph.
+  const onSamplesRef = useRef(onSamples);
+  onSamplesRef.current = onSamples;
+  const enabled = !!stream && active && !!onSamples;
+
+  useEffect(() => {
+    if (!stream || !enabled) return;
+
+    const context = new AudioContext();
+    const source = context.createMediaStreamSource(stream);
+    // ScriptProcessorNode is deprecated but needs no separate worklet module.
+    const processor = context.createScriptProcessor(BUFFER_SIZE, source.channelCount, 1);
+    // A processor only runs while connected to the output; keep it silent.
+    const mute = context.createGain();
+    mute.gain.value = 0;
+
+    processor.onaudioprocess = (e) => {
+      const { inputBuffer } = e;
+      const samples = new Float32Array(inputBuffer.length);
+      for (let channel = 0; channel < inputBuffer.numberOfChannels; channel++) {
+        const data = inputBuffer.getChannelData(channel);
+        for (let i = 0; i < data.length; i++) samples[i] += data[i] / inputBuffer.numberOfChannels;
+      }
+      onSamplesRef.current?.(samples, inputBuffer.sampleRate);
+    };
+
+    source.connect(processor);
+    processor.connect(mute);
+    mute.connect(context.destination);
+
+    return () => {
+      processor.onaudioprocess = null;
+      source.disconnect();
+      processor.disconnect();
+      mute.disconnect();
+      context.close();
+    };
+  }, [stream, enabled]);
+};
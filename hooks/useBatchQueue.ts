@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { BatchJob, TranscriptionProgress } from '../types';
+import { listJobs, saveJob, deleteJob } from '../services/transcriptLibrary';
+import { createJob, restoreJobs, loadBatchConcurrency, saveBatchConcurrency } from '../services/batchQueue';
+
+export interface BatchRunOptions {
+  signal: AbortSignal;
+  onProgress: (progress: TranscriptionProgress) => void;
+}
+
+/** Transcribes one job and resolves with the id of the library entry it created. */
+export type BatchRunner = (job: BatchJob, options: BatchRunOptions) => Promise<string>;
+
+/**
+ * Runs queued files through `run`, at most `concurrency` at a time. The queue
+ * is kept in IndexedDB, so jobs survive a refresh; any that were running are
+ * queued again when the page comes back.
+ */
+export const useBatchQueue = (run: BatchRunner) => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [concurrency, setConcurrencyState] = useState(loadBatchConcurrency);
+  // Mirrors `jobs` so callbacks always patch the latest list.
+  const jobsRef = useRef<BatchJob[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const runRef = useRef(run);
+  runRef.current = run;
+
+  const commit = (next: BatchJob[]) => {
+    jobsRef.current = next;
+    setJobs(next);
+  };
+
+  const patch = useCallback((id: string, change: Partial<BatchJob>, persist = true) => {
+    const job = jobsRef.current.find(j => j.id === id);
+    if (!job) return;
+    const next = { ...job, ...change };
+    commit(jobsRef.current.map(j => (j.id === id ? next : j)));
+    if (persist) saveJob(next).catch(err => console.error("Failed to save batch job:", err));
+  }, []);
+
+  useEffect(() => {
+    listJobs()
+      .then(stored => {
+        const restored = restoreJobs(stored);
+        // Keep anything added while the stored queue was loading.
+        const storedIds = new Set(restored.map(job => job.id));
+        commit([...restored, ...jobsRef.current.filter(job => !storedIds.has(job.id))]);
+        restored.filter((job, i) => job !== stored[i]).forEach(job => saveJob(job).catch(console.error));
+      })
+      .catch(err => console.error("Failed to load the batch queue:", err))
+      .finally(() => setIsLoaded(true));
+
+    const controllers = controllersRef.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  const start = useCallback((job: BatchJob) => {
+    const controller = new AbortController();
+    controllersRef.current.set(job.id, controller);
+    patch(job.id, { status: 'processing', error: undefined, progress: undefined });
+
+    runRef.current(job, {
+      signal: controller.signal,
+      onProgress: progress => {
+        if (!controller.signal.aborted) patch(job.id, { progress }, false);
+      },
+    })
+      .then(entryId => {
+        if (!controller.signal.aborted) patch(job.id, { status: 'success', entryId, progress: undefined });
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error(`Batch job "${job.fileName}" failed:`, err);
+        patch(job.id, {
+          status: 'error',
+          error: err instanceof Error ? err.message : "Transcription failed.",
+          progress: undefined,
+        });
+      })
+      .finally(() => controllersRef.current.delete(job.id));
+  }, [patch]);
+
+  // Start queued jobs whenever a slot is free.
+  useEffect(() => {
+    if (!isLoaded) return;
+    const active = jobs.filter(job => job.status === 'processing').length;
+    jobs
+      .filter(job => job.status === 'queued')
+      .slice(0, Math.max(0, concurrency - active))
+      .forEach(start);
+  }, [jobs, concurrency, isLoaded, start]);
+
+  const add = useCallback((files: File[]) => {
+    const added = files.map(createJob);
+    commit([...jobsRef.current, ...added]);
+    added.forEach(job => saveJob(job).catch(err => console.error("Failed to save batch job:", err)));
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+    patch(id, { status: 'cancelled', progress: undefined });
+  }, [patch]);
+
+  const retry = useCallback((id: string) => {
+    patch(id, { status: 'queued', error: undefined });
+  }, [patch]);
+
+  const remove = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+    commit(jobsRef.current.filter(job => job.id !== id));
+    deleteJob(id).catch(err => console.error("Failed to delete batch job:", err));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    jobsRef.current.filter(job => job.status === 'success').forEach(job => remove(job.id));
+  }, [remove]);
+
+  const setConcurrency = useCallback((value: number) => {
+    setConcurrencyState(value);
+    saveBatchConcurrency(value);
+  }, []);
+
+  return { jobs, concurrency, setConcurrency, add, cancel, retry, remove, clearFinished };
+};
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useState, useEffect } from 'react';
+
+// Peaks at or above this are treated as clipping.
+const CLIP_THRESHOLD = 0.98;
+// RMS below this counts as silence.
+const SILENCE_RMS = 0.01;
+const SILENCE_WARNING_MS = 3000;
+// How long a clipping warning stays up after the last clipped frame.
+const CLIP_HOLD_MS = 1000;
+
+export interface InputLevel {
+  /** RMS of the latest frame, 0 to 1. */
+  level: number;
+  isClipping: boolean;
+  /** True once the input has been silent for a few seconds. */
+  isSilent: boolean;
+}
+
+const IDLE_LEVEL: InputLevel = { level: 0, isClipping: false, isSilent: false };
+
+/**
+ * Meters a live stream with an AnalyserNode. Pass `active = false` while
+ * paused so silence during a pause is not reported.
+ */
+export const useInputLevel = (stream: MediaStream | null, active = true): InputLevel => {
+  const [state, setState] = useState<InputLevel>(IDLE_LEVEL);
+
+  useEffect(() => {
+    if (!stream || !active) {
+      setState(IDLE_LEVEL);
+      return;
+    }
+
+    const context = new AudioContext();
+    const source = context.createMediaStreamSource(stream);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    source.connect(analyser);
+
+    const buffer = new Float32Array(analyser.fftSize);
+    let frame = 0;
+    let lastSound = performance.now();
+    let lastClip = -Infinity;
+
+    const tick = () => {
+      analyser.getFloatTimeDomainData(buffer);
+      let sum = 0;
+      let peak = 0;
+      for (let i = 0; i < buffer.length; i++) {
+        sum += buffer[i] * buffer[i];
+        peak = Math.max(peak, Math.abs(buffer[i]));
+      }
+      const level = Math.sqrt(sum / buffer.length);
+      const now = performance.now();
+      if (level >= SILENCE_RMS) lastSound = now;
+      if (peak >= CLIP_THRESHOLD) lastClip = now;
+
+      setState({
+        level,
+        isClipping: now - lastClip < CLIP_HOLD_MS,
+        isSilent: now - lastSound > SILENCE_WARNING_MS,
+      });
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      context.close();
+    };
+  }, [stream, active]);
+
+  return state;
+};
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { TranscriptionSegment } from '../types';
+import { createLiveSession, LiveSession, LiveTransport } from '../services/liveTranscription';
+
+/**
+ * Runs a live transcription session alongside a recording. Call `start`
+ * when recording begins, feed it the captured samples with `push`, and
+ * `stop` once the recording ends.
+ */
+export const useLiveTranscription = (transport: LiveTransport | null) => {
+  const sessionRef = useRef<LiveSession | null>(null);
+  const [segments, setSegments] = useState<TranscriptionSegment[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const stop = useCallback(() => {
+    sessionRef.current?.close();
+    sessionRef.current = null;
+  }, []);
+
+  const start = useCallback(() => {
+    stop();
+    setSegments([]);
+    setError(null);
+    if (!transport) return;
+    sessionRef.current = createLiveSession(transport, {
+      onUpdate: setSegments,
+      onError: (err) => {
+        console.error("Live transcription failed:", err);
+        setError("Live transcription is lagging behind. The full transcript will still be generated when you stop.");
+      },
+    });
+  }, [transport, stop]);
+
+  const push = useCallback((samples: Float32Array, sampleRate: number) => sessionRef.current?.push(samples, sampleRate), []);
+
+  const clear = useCallback(() => {
+    stop();
+    setSegments([]);
+    setError(null);
+  }, [stop]);
+
+  useEffect(() => stop, [stop]);
+
+  return { segments, error, start, push, stop, clear };
+};
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useReducer, useCallback } from 'react';
+import { TranscriptionResponse } from '../types';
+
+const MAX_HISTORY = 200;
+// Keystrokes on the same field within this window become one undo step.
+const COALESCE_MS = 1000;
+
+interface HistoryState {
+  past: TranscriptionResponse[];
+  present: TranscriptionResponse | null;
+  future: TranscriptionResponse[];
+  /** The state last loaded or saved; anything else counts as unsaved. */
+  saved: TranscriptionResponse | null;
+  lastKey: string | null;
+  lastTime: number;
+}
+
+type HistoryAction =
+  | { type: 'reset'; value: TranscriptionResponse | null }
+  | { type: 'apply'; value: TranscriptionResponse; key?: string; time: number }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'markSaved'; value?: TranscriptionResponse | null };
+
+const initialState: HistoryState = { past: [], present: null, future: [], saved: null, lastKey: null, lastTime: 0 };
+
+const reducer = (state: HistoryState, action: HistoryAction): HistoryState => {
+  switch (action.type) {
+    case 'reset':
+      return { ...initialState, present: action.value, saved: action.value };
+    case 'apply': {
+      if (!state.present || action.value === state.present) return state;
+      const coalesce = action.key !== undefined && action.key === state.lastKey && action.time - state.lastTime < COALESCE_MS;
+      return {
+        ...state,
+        past: coalesce ? state.past : [...state.past, state.present].slice(-MAX_HISTORY),
+        present: action.value,
+        future: [],
+        lastKey: action.key ?? null,
+        lastTime: action.time,
+      };
+    }
+    case 'undo': {
+      if (state.past.length === 0 || !state.present) return state;
+      return {
+        ...state,
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future],
+        lastKey: null,
+      };
+    }
+    case 'redo': {
+      if (state.future.length === 0 || !state.present) return state;
+      return {
+        ...state,
+        past: [...state.past, state.present],
+        present: state.future[0],
+        future: state.future.slice(1),
+        lastKey: null,
+      };
+    }
+    case 'markSaved':
+      return { ...state, saved: action.value !== undefined ? action.value : state.present };
+    default:
+      return state;
+  }
+};
+
+/**
+ * Undo/redo history for an editable transcript.
+ */
+export const useTranscriptHistory = () => {
+  const [state, dispatch] = useReducer(reducer, initialState);
+
+  const reset = useCallback((value: TranscriptionResponse | null) => dispatch({ type: 'reset', value }), []);
+  /** Records an edit; pass the same `coalesceKey` for keystrokes in one field. */
+  const apply = useCallback(
+    (value: TranscriptionResponse, coalesceKey?: string) => dispatch({ type: 'apply', value, key: coalesceKey, time: Date.now() }),
+    []
+  );
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+  /** Marks `value` (by default the current state) as persisted. */
+  const markSaved = useCallback(
+    (value?: TranscriptionResponse | null) => dispatch({ type: 'markSaved', value }),
+    []
+  );
+
+  return {
+    present: state.present,
+    reset,
+    apply,
+    undo,
+    redo,
+    markSaved,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    isDirty: state.present !== state.saved,
+  };
+};
+
+export type TranscriptHistory = ReturnType<typeof useTranscriptHistory>;
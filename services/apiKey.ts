@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { isExtension } from './extension/bridge';
+
+const API_KEY_STORAGE_KEY = 'geminiApiKey';
+
+/**
+ * Raised when a request needs the Gemini API key and none is configured.
+ */
+export class MissingApiKeyError extends Error {
+  constructor() {
+    super(isExtension()
+      ? "No Gemini API key is set. Add one in the extension's settings."
+      : "API Key is missing. Please ensure process.env.API_KEY is available.");
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+/**
+ * The extension keeps the key the user entered in chrome.storage; the web
+ * app uses the key provided at build time.
+ */
+export const getApiKey = async (): Promise<string | undefined> => {
+  if (!isExtension()) return process.env.API_KEY;
+  const stored = await chrome.storage.local.get(API_KEY_STORAGE_KEY);
+  return (stored[API_KEY_STORAGE_KEY] as string | undefined) || undefined;
+};
+
+/**
+ * Stores the key for the extension; an empty key removes it.
+ */
+export const saveApiKey = async (key: string): Promise<void> => {
+  const trimmed = key.trim();
+  if (trimmed) await chrome.storage.local.set({ [API_KEY_STORAGE_KEY]: trimmed });
+  else await chrome.storage.local.remove(API_KEY_STORAGE_KEY);
+};
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DecodedAudio } from './audioProcessing';
+
+export interface ChunkPlanOptions {
+  /** Target window length in seconds. */
+  windowSec: number;
+  /** Audio shared between neighbouring windows, in seconds. */
+  overlapSec: number;
+  /** How far back from the target boundary to look for silence. */
+  searchSec: number;
+}
+
+export interface AudioChunk {
+  index: number;
+  /** Window bounds, including overlap. */
+  start: number;
+  end: number;
+  /** Range this chunk is authoritative for when merging results. */
+  ownStart: number;
+  ownEnd: number;
+}
+
+export const DEFAULT_CHUNK_PLAN: ChunkPlanOptions = {
+  windowSec: 300,
+  overlapSec: 5,
+  searchSec: 20,
+};
+
+const FRAME_SEC = 0.05;
+
+/**
+ * Computes RMS energy per 50ms frame.
+ */
+const frameEnergies = (samples: Float32Array, sampleRate: number): Float32Array => {
+  const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SEC));
+  const energies = new Float32Array(Math.ceil(samples.length / frameSize));
+  for (let f = 0; f < energies.length; f++) {
+    let sum = 0;
+    const from = f * frameSize;
+    const to = Math.min(samples.length, from + frameSize);
+    for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+    energies[f] = Math.sqrt(sum / Math.max(1, to - from));
+  }
+  return energies;
+};
+
+/**
+ * Finds the quietest point in [from, to] seconds, smoothing over a few
+ * frames so a single quiet sample inside a word does not count as a pause.
+ */
+const findQuietestPoint = (energies: Float32Array, from: number, to: number): number => {
+  const first = Math.max(0, Math.floor(from / FRAME_SEC));
+  const last = Math.min(energies.length - 1, Math.ceil(to / FRAME_SEC));
+  const smoothing = 4;
+
+  let best = last;
+  let bestEnergy = Infinity;
+  for (let f = first; f <= last; f++) {
+    let sum = 0;
+    let count = 0;
+    for (let k = Math.max(0, f - smoothing); k <= Math.min(energies.length - 1, f + smoothing); k++) {
+      sum += energies[k];
+      count++;
+    }
+    const avg = sum / count;
+    // Prefer later cut points on ties so windows stay close to the target size.
+    if (avg <= bestEnergy) {
+      bestEnergy = avg;
+      best = f;
+    }
+  }
+  return best * FRAME_SEC;
+};
+
+/**
+ * Splits decoded audio into overlapping windows, cutting at pauses near each
+ * target boundary.
+ */
+export const planChunks = (
+  audio: DecodedAudio,
+  options: ChunkPlanOptions = DEFAULT_CHUNK_PLAN
+): AudioChunk[] => {
+  const { duration } = audio;
+  if (duration <= options.windowSec) {
+    return [{ index: 0, start: 0, end: duration, ownStart: 0, ownEnd: duration }];
+  }
+
+  const energies = frameEnergies(audio.samples, audio.sampleRate);
+  const cuts: number[] = [];
+  let position = 0;
+  while (duration - position > options.windowSec) {
+    const target = position + options.windowSec;
+    const cut = findQuietestPoint(energies, target - options.searchSec, target);
+    // Guard against a cut that makes no progress.
+    position = cut > position + options.searchSec ? cut : target;
+    cuts.push(position);
+  }
+
+  const bounds = [0, ...cuts, duration];
+  const chunks: AudioChunk[] = [];
+  for (let i = 0; i < bounds.length - 1; i++) {
+    chunks.push({
+      index: i,
+      start: Math.max(0, bounds[i] - options.overlapSec),
+      end: Math.min(duration, bounds[i + 1] + options.overlapSec),
+      ownStart: bounds[i],
+      ownEnd: bounds[i + 1],
+    });
+  }
+  return chunks;
+};
+
+/**
+ * Returns the samples covered by a chunk window.
+ */
+export const sliceChunk = (audio: DecodedAudio, chunk: AudioChunk): Float32Array =>
+  audio.samples.subarray(
+    Math.floor(chunk.start * audio.sampleRate),
+    Math.min(audio.samples.length, Math.ceil(chunk.end * audio.sampleRate))
+  );
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AudioSpan, PreparedAudio } from '../types';
+import { DecodedAudio, decodeToMono, blobToBase64, cutSpans } from './audioProcessing';
+
+export type PreprocessFormat = 'opus' | 'wav';
+
+export interface PreprocessOptions {
+  format: PreprocessFormat;
+  normalize: boolean;
+  trimSilence: boolean;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  format: 'opus',
+  normalize: true,
+  trimSilence: false,
+};
+
+// Speech models work at 16 kHz; anything higher only adds bytes.
+export const TARGET_SAMPLE_RATE = 16000;
+
+export interface PreprocessRequest extends PreprocessOptions {
+  samples: Float32Array;
+  sampleRate: number;
+  /** Where `samples` came from in the original. */
+  spans: AudioSpan[];
+}
+
+export type PreprocessResponse =
+  | { ok: true; blob: Blob; spans: AudioSpan[]; format: PreprocessFormat }
+  | { ok: false; error: string };
+
+/**
+ * Whether this browser can encode Opus with WebCodecs. Without it the
+ * worker falls back to WAV.
+ */
+export const supportsOpusEncoding = async (sampleRate = TARGET_SAMPLE_RATE): Promise<boolean> => {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported({ codec: 'opus', sampleRate, numberOfChannels: 1 });
+    return !!supported;
+  } catch {
+    return false;
+  }
+};
+
+const runWorker = (request: PreprocessRequest): Promise<Extract<PreprocessResponse, { ok: true }>> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./audioPreprocessing.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<PreprocessResponse>) => {
+      const response = e.data;
+      worker.terminate();
+      if ('error' in response) reject(new Error(response.error));
+      else resolve(response);
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Audio preprocessing failed.'));
+    };
+    worker.postMessage(request, [request.samples.buffer]);
+  });
+
+/**
+ * Decodes any audio or video file to mono at the target rate. This needs an
+ * OfflineAudioContext, which only exists on the main thread, so it is kept
+ * apart from the worker and done once per file.
+ */
+export const decodeForPreprocessing = (file: Blob): Promise<DecodedAudio> => decodeToMono(file, TARGET_SAMPLE_RATE);
+
+/**
+ * Turns decoded audio into compact speech audio made of just `spans`. The
+ * normalizing, trimming and encoding happen in a worker.
+ */
+export const preprocessAudio = async (
+  decoded: DecodedAudio,
+  options: PreprocessOptions,
+  spans: AudioSpan[] = [{ startSec: 0, endSec: decoded.duration }]
+): Promise<PreparedAudio> => {
+  // Cutting always copies, so the decoded audio survives the transfer to the worker.
+  const samples = cutSpans(decoded.samples, decoded.sampleRate, spans);
+  const result = await runWorker({ ...options, samples, sampleRate: decoded.sampleRate, spans });
+  return {
+    blob: result.blob,
+    base64: await blobToBase64(result.blob),
+    mimeType: result.blob.type,
+    spans: result.spans,
+  };
+};
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PreprocessRequest, PreprocessResponse, supportsOpusEncoding } from './audioPreprocessing';
+import { encodeWav, normalizeLoudness, trimSilence } from './audioProcessing';
+import { sliceSpans } from './audioRegions';
+import { muxOggOpus, OpusPacket } from './oggOpus';
+
+// Plenty for intelligible speech and about a tenth of 16-bit WAV.
+const OPUS_BITRATE = 24000;
+
+const encodeOpus = async (samples: Float32Array, sampleRate: number): Promise<Blob> => {
+  const packets: OpusPacket[] = [];
+  let failure: unknown = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, durationUs: chunk.duration ?? 20000 });
+    },
+    error: (err) => {
+      failure = err;
+    },
+  });
+  encoder.configure({ codec: 'opus', sampleRate, numberOfChannels: 1, bitrate: OPUS_BITRATE });
+
+  // Feed one second at a time so the encoder queue stays small.
+  for (let offset = 0; offset < samples.length; offset += sampleRate) {
+    const block = samples.slice(offset, offset + sampleRate);
+    const frame = new AudioData({
+      format: 'f32',
+      sampleRate,
+      numberOfChannels: 1,
+      numberOfFrames: block.length,
+      timestamp: Math.round((offset / sampleRate) * 1e6),
+      data: block,
+    });
+    encoder.encode(frame);
+    frame.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+
+  return muxOggOpus(packets, sampleRate);
+};
+
+const handle = async (request: PreprocessRequest): Promise<PreprocessResponse> => {
+  let { samples, spans } = request;
+
+  if (request.trimSilence) {
+    const trimmed = trimSilence(samples, request.sampleRate);
+    samples = trimmed.samples;
+    spans = sliceSpans(spans, trimmed.offsetSec, trimmed.offsetSec + samples.length / request.sampleRate);
+  }
+  if (request.normalize) samples = normalizeLoudness(samples, request.sampleRate);
+
+  if (request.format === 'opus' && await supportsOpusEncoding(request.sampleRate)) {
+    return { ok: true, blob: await encodeOpus(samples, request.sampleRate), spans, format: 'opus' };
+  }
+  return { ok: true, blob: encodeWav(samples, request.sampleRate), spans, format: 'wav' };
+};
+
+self.onmessage = (e: MessageEvent<PreprocessRequest>) => {
+  handle(e.data)
+    .then(response => self.postMessage(response))
+    .catch((err: unknown) => {
+      const response: PreprocessResponse = { ok: false, error: err instanceof Error ? err.message : String(err) };
+      self.postMessage(response);
+    });
+};
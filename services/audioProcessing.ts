@@ -0,0 +1,217 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AudioSpan } from '../types';
+
+export interface DecodedAudio {
+  samples: Float32Array;
+  sampleRate: number;
+  duration: number;
+}
+
+/**
+ * Decodes an audio (or video) blob and downmixes it to a single channel.
+ * Decoding through an OfflineAudioContext resamples to `sampleRate`, which
+ * keeps long recordings at a manageable size in memory.
+ */
+export const decodeToMono = async (blob: Blob, sampleRate = 16000): Promise<DecodedAudio> => {
+  const arrayBuffer = await blob.arrayBuffer();
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await context.decodeAudioData(arrayBuffer);
+
+  const samples = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      samples[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+
+  return { samples, sampleRate: buffer.sampleRate, duration: buffer.duration };
+};
+
+/**
+ * Encodes mono float samples as a 16-bit PCM WAV blob.
+ */
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+// Loudness targets for speech: about -20 dBFS RMS with peaks kept under -1 dBFS.
+const TARGET_RMS = 0.1;
+const PEAK_LIMIT = 0.89;
+// Frames quieter than this are left out of the loudness measurement and trimmed as silence.
+const SILENCE_RMS = 0.01;
+const FRAME_SEC = 0.02;
+
+const frameRms = (samples: Float32Array, start: number, length: number) => {
+  let sum = 0;
+  const end = Math.min(samples.length, start + length);
+  for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / Math.max(1, end - start));
+};
+
+/**
+ * Scales speech to a consistent level, measuring only the frames that are
+ * not silence so long pauses do not make quiet speakers louder still.
+ */
+export const normalizeLoudness = (samples: Float32Array, sampleRate: number): Float32Array => {
+  const frame = Math.max(1, Math.round(sampleRate * FRAME_SEC));
+  let sum = 0;
+  let count = 0;
+  let peak = 0;
+  for (let start = 0; start < samples.length; start += frame) {
+    const rms = frameRms(samples, start, frame);
+    if (rms < SILENCE_RMS) continue;
+    const end = Math.min(samples.length, start + frame);
+    for (let i = start; i < end; i++) {
+      sum += samples[i] * samples[i];
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    count += end - start;
+  }
+  if (count === 0) return samples;
+
+  const gain = Math.min(TARGET_RMS / Math.sqrt(sum / count), PEAK_LIMIT / peak);
+  const out = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) out[i] = samples[i] * gain;
+  return out;
+};
+
+/**
+ * Cuts leading and trailing silence, keeping a little padding. `offsetSec`
+ * is where the kept audio began in the original.
+ */
+export const trimSilence = (
+  samples: Float32Array,
+  sampleRate: number,
+  paddingSec = 0.25
+): { samples: Float32Array; offsetSec: number } => {
+  const frame = Math.max(1, Math.round(sampleRate * FRAME_SEC));
+  let first = -1;
+  let last = -1;
+  for (let start = 0; start < samples.length; start += frame) {
+    if (frameRms(samples, start, frame) >= SILENCE_RMS) {
+      if (first < 0) first = start;
+      last = start + frame;
+    }
+  }
+  if (first < 0) return { samples, offsetSec: 0 };
+
+  const padding = Math.round(paddingSec * sampleRate);
+  const from = Math.max(0, first - padding);
+  const to = Math.min(samples.length, last + padding);
+  return { samples: samples.subarray(from, to), offsetSec: from / sampleRate };
+};
+
+/**
+ * Copies the given stretches out of `samples` and joins them end to end.
+ */
+export const cutSpans = (samples: Float32Array, sampleRate: number, spans: AudioSpan[]): Float32Array => {
+  const ranges = spans.map(span => [
+    Math.max(0, Math.round(span.startSec * sampleRate)),
+    Math.min(samples.length, Math.round(span.endSec * sampleRate)),
+  ]);
+  const out = new Float32Array(ranges.reduce((sum, [from, to]) => sum + Math.max(0, to - from), 0));
+  let offset = 0;
+  for (const [from, to] of ranges) {
+    if (to <= from) continue;
+    out.set(samples.subarray(from, to), offset);
+    offset += to - from;
+  }
+  return out;
+};
+
+// A broadcast-style censor tone, faded in and out so it does not click.
+const BLEEP_HZ = 1000;
+const BLEEP_LEVEL = 0.3;
+const BLEEP_FADE_SEC = 0.005;
+
+/**
+ * Returns a copy of `samples` with the given stretches replaced by a tone.
+ */
+export const bleepSpans = (samples: Float32Array, sampleRate: number, spans: AudioSpan[]): Float32Array => {
+  const out = new Float32Array(samples);
+  const fade = Math.max(1, Math.round(BLEEP_FADE_SEC * sampleRate));
+  for (const span of spans) {
+    const from = Math.max(0, Math.round(span.startSec * sampleRate));
+    const to = Math.min(out.length, Math.round(span.endSec * sampleRate));
+    for (let i = from; i < to; i++) {
+      const envelope = Math.min(1, (i - from) / fade, (to - i) / fade);
+      out[i] = BLEEP_LEVEL * envelope * Math.sin((2 * Math.PI * BLEEP_HZ * (i - from)) / sampleRate);
+    }
+  }
+  return out;
+};
+
+/**
+ * Reduces samples to `count` peak values between 0 and 1 for drawing a waveform.
+ */
+export const computePeaks = (samples: Float32Array, count: number): Float32Array => {
+  const peaks = new Float32Array(count);
+  const bucket = samples.length / count;
+  for (let i = 0; i < count; i++) {
+    const end = Math.min(samples.length, Math.floor((i + 1) * bucket));
+    let peak = 0;
+    for (let j = Math.floor(i * bucket); j < end; j++) peak = Math.max(peak, Math.abs(samples[j]));
+    peaks[i] = Math.min(1, peak);
+  }
+  return peaks;
+};
+
+export const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const base64String = reader.result as string;
+      resolve(base64String.split(',')[1]);
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Reads a blob's duration from its metadata. MediaRecorder output often
+ * reports Infinity until fully scanned, in which case this returns null.
+ */
+export const probeDuration = (blob: Blob): Promise<number | null> =>
+  new Promise(resolve => {
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio();
+    const finish = (value: number | null) => {
+      URL.revokeObjectURL(url);
+      resolve(value);
+    };
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => finish(Number.isFinite(audio.duration) ? audio.duration : null);
+    audio.onerror = () => finish(null);
+    audio.src = url;
+  });
@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// In order of preference. Opus keeps recordings small and Gemini accepts
+// every container listed here.
+const RECORDER_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/webm',
+  'audio/ogg;codecs=opus',
+  'audio/mp4;codecs=mp4a.40.2',
+  'audio/mp4',
+];
+
+const SETTINGS_KEY = 'echoscript.recorder';
+
+/**
+ * What to record: the microphone, audio shared from a tab or screen, or
+ * both mixed into one track so a call has the remote and local side together.
+ */
+export type CaptureSource = 'microphone' | 'display' | 'mixed';
+
+export const CAPTURE_SOURCES: { id: CaptureSource; label: string }[] = [
+  { id: 'microphone', label: 'Microphone' },
+  { id: 'display', label: 'Tab audio' },
+  { id: 'mixed', label: 'Both' },
+];
+
+export interface RecorderSettings {
+  source: CaptureSource;
+  /** Empty means the browser's default input. */
+  deviceId: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+}
+
+export const DEFAULT_RECORDER_SETTINGS: RecorderSettings = {
+  source: 'microphone',
+  deviceId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+};
+
+/**
+ * Returns the first container this browser can record, or undefined to let
+ * MediaRecorder choose.
+ */
+export const pickRecorderMimeType = (): string | undefined =>
+  typeof MediaRecorder === 'undefined'
+    ? undefined
+    : RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+/**
+ * Drops codec parameters, e.g. "audio/webm;codecs=opus" becomes "audio/webm".
+ */
+export const baseMimeType = (mimeType: string) => mimeType.split(';')[0].trim();
+
+/**
+ * Lists microphones. Labels are empty until the user has granted access once.
+ */
+export const listInputDevices = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput');
+};
+
+export const buildAudioConstraints = (settings: RecorderSettings): MediaTrackConstraints => ({
+  deviceId: settings.deviceId ? { exact: settings.deviceId } : undefined,
+  echoCancellation: settings.echoCancellation,
+  noiseSuppression: settings.noiseSuppression,
+});
+
+export const loadRecorderSettings = (): RecorderSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_RECORDER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_RECORDER_SETTINGS;
+  } catch {
+    return DEFAULT_RECORDER_SETTINGS;
+  }
+};
+
+export const saveRecorderSettings = (settings: RecorderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Raised when a capture source opens but cannot be used, with a message
+ * meant for the user.
+ */
+export class CaptureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CaptureError';
+  }
+}
+
+export interface CaptureStream {
+  /** A single audio stream to hand to MediaRecorder. */
+  stream: MediaStream;
+  /** Stops every underlying track and tears down any mixing graph. */
+  release: () => void;
+}
+
+/**
+ * Asks for tab or screen audio. Chrome only offers tab audio alongside
+ * video, so the video track is kept alive but never recorded.
+ */
+const openDisplayAudio = async (): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getDisplayMedia) {
+    throw new CaptureError("This browser cannot capture tab audio.");
+  }
+  const display = await navigator.mediaDevices.getDisplayMedia({
+    video: true,
+    audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+  });
+  if (display.getAudioTracks().length === 0) {
+    display.getTracks().forEach(track => track.stop());
+    throw new CaptureError("No audio was shared. Pick a tab and turn on \"Share tab audio\" (or \"Share system audio\").");
+  }
+  return display;
+};
+
+/**
+ * Opens the chosen source. `onEnded` fires when the user stops sharing from
+ * the browser's own controls.
+ */
+export const openCaptureStream = async (settings: RecorderSettings, onEnded?: () => void): Promise<CaptureStream> => {
+  const stopAll = (streams: MediaStream[]) => streams.forEach(s => s.getTracks().forEach(track => track.stop()));
+
+  if (settings.source === 'microphone') {
+    const mic = await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(settings) });
+    return { stream: mic, release: () => stopAll([mic]) };
+  }
+
+  const display = await openDisplayAudio();
+  display.getAudioTracks()[0].addEventListener('ended', () => onEnded?.());
+
+  if (settings.source === 'display') {
+    return { stream: new MediaStream(display.getAudioTracks()), release: () => stopAll([display]) };
+  }
+
+  let mic: MediaStream;
+  try {
+    mic = await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(settings) });
+  } catch (err) {
+    stopAll([display]);
+    throw err;
+  }
+
+  // Mix both sources into one track through a Web Audio graph.
+  const context = new AudioContext();
+  const destination = context.createMediaStreamDestination();
+  context.createMediaStreamSource(new MediaStream(display.getAudioTracks())).connect(destination);
+  context.createMediaStreamSource(mic).connect(destination);
+  // The context may start suspended after the permission prompts.
+  await context.resume();
+
+  return {
+    stream: destination.stream,
+    release: () => {
+      stopAll([display, mic, destination.stream]);
+      context.close();
+    },
+  };
+};
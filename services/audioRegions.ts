@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AudioSpan } from '../types';
+
+/** Whether the marked regions are the parts to transcribe or the parts to skip. */
+export type RegionMode = 'include' | 'exclude';
+
+export interface AudioRegion extends AudioSpan {
+  id: string;
+}
+
+// Shorter selections are almost always stray clicks.
+export const MIN_REGION_SEC = 1;
+
+const clampSpan = (span: AudioSpan, durationSec: number): AudioSpan => ({
+  startSec: Math.max(0, Math.min(span.startSec, durationSec)),
+  endSec: Math.max(0, Math.min(span.endSec, durationSec)),
+});
+
+/**
+ * Sorts spans and joins any that overlap or touch.
+ */
+export const mergeSpans = (spans: AudioSpan[]): AudioSpan[] => {
+  const sorted = [...spans].sort((a, b) => a.startSec - b.startSec);
+  const merged: AudioSpan[] = [];
+  for (const span of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && span.startSec <= last.endSec) last.endSec = Math.max(last.endSec, span.endSec);
+    else merged.push({ startSec: span.startSec, endSec: span.endSec });
+  }
+  return merged;
+};
+
+/**
+ * Turns the marked regions into the stretches of the file to keep, in
+ * order. With no regions the whole file is kept; an empty result means
+ * every second was excluded.
+ */
+export const resolveSpans = (regions: AudioSpan[], mode: RegionMode, durationSec: number): AudioSpan[] => {
+  const marked = mergeSpans(regions.map(region => clampSpan(region, durationSec)))
+    .filter(span => span.endSec > span.startSec);
+  if (marked.length === 0) return [{ startSec: 0, endSec: durationSec }];
+  if (mode === 'include') return marked;
+
+  const kept: AudioSpan[] = [];
+  let cursor = 0;
+  for (const span of marked) {
+    if (span.startSec > cursor) kept.push({ startSec: cursor, endSec: span.startSec });
+    cursor = span.endSec;
+  }
+  if (cursor < durationSec) kept.push({ startSec: cursor, endSec: durationSec });
+  return kept;
+};
+
+export const totalSpanDuration = (spans: AudioSpan[]): number =>
+  spans.reduce((sum, span) => sum + span.endSec - span.startSec, 0);
+
+/**
+ * Keeps the part of the spans that lands between `fromSec` and `toSec` once
+ * they are laid end to end, e.g. after silence is trimmed off the joined audio.
+ */
+export const sliceSpans = (spans: AudioSpan[], fromSec: number, toSec: number): AudioSpan[] => {
+  const sliced: AudioSpan[] = [];
+  let offset = 0;
+  for (const span of spans) {
+    const length = span.endSec - span.startSec;
+    const start = Math.max(fromSec - offset, 0);
+    const end = Math.min(toSec - offset, length);
+    if (end > start) sliced.push({ startSec: span.startSec + start, endSec: span.startSec + end });
+    offset += length;
+  }
+  return sliced;
+};
+
+const mapToSource = (spans: AudioSpan[], timeSec: number, isEnd: boolean): number => {
+  let offset = 0;
+  for (const span of spans) {
+    const length = span.endSec - span.startSec;
+    if (isEnd ? timeSec <= offset + length : timeSec < offset + length) {
+      return span.startSec + Math.max(0, timeSec - offset);
+    }
+    offset += length;
+  }
+  const last = spans[spans.length - 1];
+  return last ? last.startSec + Math.max(0, timeSec - offset + (last.endSec - last.startSec)) : timeSec;
+};
+
+/**
+ * Maps a time in audio made by joining `spans` back onto the original file.
+ * Times past the end carry on from the last span.
+ */
+export const toSourceTime = (spans: AudioSpan[], timeSec: number): number => mapToSource(spans, timeSec, false);
+
+/**
+ * Like `toSourceTime`, but a time exactly where two spans meet stays at the
+ * end of the earlier one, so an end time does not jump across a cut.
+ */
+export const toSourceEndTime = (spans: AudioSpan[], timeSec: number): number => mapToSource(spans, timeSec, true);
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BatchJob } from '../types';
+import { createId } from '../utils/id';
+
+const CONCURRENCY_KEY = 'echoscript.batchConcurrency';
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 4;
+
+export interface QueueSummary {
+  total: number;
+  /** Jobs that will not run again without a retry: succeeded, failed or cancelled. */
+  finished: number;
+  succeeded: number;
+  failed: number;
+  active: number;
+}
+
+export const createJob = (file: File): BatchJob => ({
+  id: createId(),
+  fileName: file.name,
+  blob: file,
+  status: 'queued',
+  createdAt: Date.now(),
+});
+
+/**
+ * Puts jobs that were running when the page closed back in the queue.
+ */
+export const restoreJobs = (jobs: BatchJob[]): BatchJob[] =>
+  jobs.map(job => (job.status === 'processing' ? { ...job, status: 'queued' } : job));
+
+export const summarizeQueue = (jobs: BatchJob[]): QueueSummary => ({
+  total: jobs.length,
+  finished: jobs.filter(job => job.status === 'success' || job.status === 'error' || job.status === 'cancelled').length,
+  succeeded: jobs.filter(job => job.status === 'success').length,
+  failed: jobs.filter(job => job.status === 'error').length,
+  active: jobs.filter(job => job.status === 'processing').length,
+});
+
+export const loadBatchConcurrency = (): number => {
+  const stored = Number(typeof localStorage !== 'undefined' ? localStorage.getItem(CONCURRENCY_KEY) : null);
+  return stored >= 1 && stored <= MAX_BATCH_CONCURRENCY ? stored : DEFAULT_BATCH_CONCURRENCY;
+};
+
+export const saveBatchConcurrency = (value: number) => {
+  localStorage.setItem(CONCURRENCY_KEY, String(value));
+};
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AudioData, TranscriptionResponse, TranscriptionSegment, ChunkContext, TranscriptionProgress } from '../types';
+import { decodeToMono, encodeWav, blobToBase64 } from './audioProcessing';
+import { planChunks, sliceChunk, AudioChunk, DEFAULT_CHUNK_PLAN, ChunkPlanOptions } from './audioChunker';
+import { mapWordTimes } from './wordTimings';
+import { formatTimestampRange, roundMs } from '../utils/time';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+// Gemini rejects requests above 20MB; base64 adds a third, so leave headroom.
+export const MAX_INLINE_BASE64_LENGTH = 18 * 1024 * 1024;
+
+/**
+ * The backend calls the chunking pipeline needs: one request per window and
+ * a final pass that merges the per-window summaries.
+ */
+export interface ChunkTranscriber {
+  transcribe: (base64: string, mimeType: string, chunk?: ChunkContext) => Promise<TranscriptionResponse>;
+  combineSummaries: (summaries: string[]) => Promise<string>;
+}
+
+export interface ChunkedTranscriptionOptions {
+  concurrency?: number;
+  plan?: ChunkPlanOptions;
+  onProgress?: (progress: TranscriptionProgress) => void;
+  /** Checked between chunks; pass the same signal to the transcriber to stop requests in flight. */
+  signal?: AbortSignal;
+}
+
+export const needsChunking = (audio: AudioData) => audio.base64.length > MAX_INLINE_BASE64_LENGTH;
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Shifts a chunk's segments onto the file timeline and keeps only those that
+ * start inside the range the chunk owns, so the overlap is not emitted twice.
+ */
+const rebaseSegments = (segments: TranscriptionSegment[], chunk: AudioChunk): TranscriptionSegment[] =>
+  segments.flatMap(segment => {
+    const startSec = roundMs(segment.startSec + chunk.start);
+    const endSec = roundMs(segment.endSec + chunk.start);
+    if (startSec < chunk.ownStart || startSec >= chunk.ownEnd) return [];
+
+    return [mapWordTimes({ ...segment, startSec, endSec, timestamp: formatTimestampRange(startSec, endSec) }, sec => sec + chunk.start)];
+  });
+
+/**
+ * Drops segments at the start of a chunk that repeat the end of the chunk
+ * before, which happens when a sentence straddles a cut and both windows
+ * transcribe it. Only segments both windows heard are compared, so genuine
+ * repeats elsewhere in the file are kept.
+ */
+const dedupeSeam = (
+  previous: TranscriptionSegment[],
+  previousChunk: AudioChunk,
+  segments: TranscriptionSegment[],
+  chunk: AudioChunk
+): TranscriptionSegment[] => {
+  const tail = previous.filter(segment => segment.endSec > chunk.start).map(segment => normalizeText(segment.content));
+  return segments.filter(segment => {
+    if (segment.startSec >= previousChunk.end) return true;
+    const text = normalizeText(segment.content);
+    return !(text.length > 0 && tail.some(other => other === text || other.endsWith(` ${text}`)));
+  });
+};
+
+/** Joins the rebased segments of each chunk, removing duplicates at the seams. */
+const mergeChunks = (perChunk: TranscriptionSegment[][], chunks: AudioChunk[]): TranscriptionSegment[] => {
+  const merged: TranscriptionSegment[] = [];
+  let previous: TranscriptionSegment[] = [];
+  perChunk.forEach((segments, i) => {
+    const kept = i === 0 ? segments : dedupeSeam(previous, chunks[i - 1], segments, chunks[i]);
+    merged.push(...kept);
+    previous = kept;
+  });
+  return merged;
+};
+
+/**
+ * Transcribes audio of any length. Small files go to the backend in one request;
+ * larger ones are decoded, split on silence into overlapping windows and
+ * transcribed in parallel before being merged back together.
+ */
+export const transcribeLongAudio = async (
+  audio: AudioData,
+  transcriber: ChunkTranscriber,
+  options: ChunkedTranscriptionOptions = {}
+): Promise<TranscriptionResponse> => {
+  const { concurrency = 3, plan = DEFAULT_CHUNK_PLAN, onProgress, signal } = options;
+
+  if (!needsChunking(audio)) {
+    onProgress?.({ completed: 0, total: 1 });
+    const result = await transcriber.transcribe(audio.base64, audio.mimeType);
+    onProgress?.({ completed: 1, total: 1 });
+    return result;
+  }
+
+  const decoded = await decodeToMono(audio.blob);
+  const chunks = planChunks(decoded, plan);
+  let completed = 0;
+  onProgress?.({ completed, total: chunks.length });
+
+  const results = await mapWithConcurrency(chunks, concurrency, async chunk => {
+    signal?.throwIfAborted();
+    const wav = encodeWav(sliceChunk(decoded, chunk), decoded.sampleRate);
+    const base64 = await blobToBase64(wav);
+    const result = await transcriber.transcribe(base64, 'audio/wav', {
+      part: chunk.index + 1,
+      totalParts: chunks.length,
+    });
+    onProgress?.({ completed: ++completed, total: chunks.length });
+    return result;
+  });
+
+  const segments = mergeChunks(
+    results.map((result, i) => rebaseSegments(result.segments ?? [], chunks[i])),
+    chunks
+  );
+  signal?.throwIfAborted();
+  const summary = await transcriber.combineSummaries(results.map(result => result.summary ?? ''));
+
+  const warnings = results.flatMap(result => result.warnings ?? []);
+
+  return warnings.length > 0 ? { summary, segments, warnings } : { summary, segments };
+};
@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Emotion, TranscriptionResponse } from '../types';
+import { formatClock } from '../utils/time';
+import { segmentDuration } from '../utils/timeline';
+import { resolveSpeakerColors } from './speakers';
+import { getEmotion } from './emotions';
+
+// A shift to a more negative emotion at or above this severity is flagged as an escalation.
+const ESCALATION_SEVERITY = 2;
+
+// Neighbouring segments often share a rounded boundary; only a real overlap counts as an interruption.
+const INTERRUPTION_MIN_OVERLAP_SEC = 0.25;
+
+export interface SpeakerAnalytics {
+  name: string;
+  color: string;
+  talkTimeSec: number;
+  /** Fraction of all talk time, 0–1. */
+  share: number;
+  /** Runs of consecutive segments by this speaker. */
+  turns: number;
+  /** Times this speaker started before the previous speaker had finished. */
+  interruptions: number;
+  words: number;
+  wordsPerMinute: number;
+}
+
+export interface EmotionShift {
+  speaker: string;
+  atSec: number;
+  from: Emotion;
+  to: Emotion;
+  escalation: boolean;
+}
+
+export interface LanguageShare {
+  language: string;
+  code: string;
+  segmentCount: number;
+  durationSec: number;
+  /** Fraction of all talk time, 0–1. */
+  share: number;
+}
+
+export interface ConversationAnalytics {
+  durationSec: number;
+  talkTimeSec: number;
+  words: number;
+  wordsPerMinute: number;
+  turns: number;
+  interruptions: number;
+  speakers: SpeakerAnalytics[];
+  /** Changes of emotion between consecutive segments of the same speaker. */
+  emotionShifts: EmotionShift[];
+  languages: LanguageShare[];
+}
+
+const countWords = (text: string) => text.match(/\S+/g)?.length ?? 0;
+
+const isEscalation = (from: Emotion, to: Emotion) => {
+  const severity = getEmotion(to).severity;
+  return severity >= ESCALATION_SEVERITY && severity > getEmotion(from).severity;
+};
+
+const perMinute = (count: number, seconds: number) => (seconds > 0 ? count / (seconds / 60) : 0);
+
+/**
+ * Computes talk time, turn taking, pace, emotion shifts and language mix
+ * from the segments alone.
+ */
+export const analyzeConversation = (response: TranscriptionResponse): ConversationAnalytics => {
+  const { segments } = response;
+  const colors = resolveSpeakerColors(response);
+  const speakers = new Map<string, SpeakerAnalytics>();
+  const languages = new Map<string, LanguageShare>();
+  const lastEmotion = new Map<string, Emotion>();
+  const emotionShifts: EmotionShift[] = [];
+
+  segments.forEach((segment, i) => {
+    const previous = segments[i - 1];
+    const duration = segmentDuration(segment);
+    const stats = speakers.get(segment.speaker) ?? {
+      name: segment.speaker,
+      color: colors[segment.speaker],
+      talkTimeSec: 0,
+      share: 0,
+      turns: 0,
+      interruptions: 0,
+      words: 0,
+      wordsPerMinute: 0,
+    };
+    stats.talkTimeSec += duration;
+    stats.words += countWords(segment.content);
+    if (!previous || previous.speaker !== segment.speaker) stats.turns++;
+    if (previous && previous.speaker !== segment.speaker && previous.endSec - segment.startSec > INTERRUPTION_MIN_OVERLAP_SEC) {
+      stats.interruptions++;
+    }
+    speakers.set(segment.speaker, stats);
+
+    const code = segment.language_code || segment.language || 'unknown';
+    const language = languages.get(code) ?? { language: segment.language || code, code, segmentCount: 0, durationSec: 0, share: 0 };
+    language.segmentCount++;
+    language.durationSec += duration;
+    languages.set(code, language);
+
+    if (segment.emotion) {
+      const from = lastEmotion.get(segment.speaker);
+      if (from && from !== segment.emotion) {
+        emotionShifts.push({
+          speaker: segment.speaker,
+          atSec: segment.startSec,
+          from,
+          to: segment.emotion,
+          escalation: isEscalation(from, segment.emotion),
+        });
+      }
+      lastEmotion.set(segment.speaker, segment.emotion);
+    }
+  });
+
+  const speakerList = Array.from(speakers.values());
+  const talkTimeSec = speakerList.reduce((total, speaker) => total + speaker.talkTimeSec, 0);
+  const words = speakerList.reduce((total, speaker) => total + speaker.words, 0);
+  speakerList.forEach(speaker => {
+    speaker.share = talkTimeSec > 0 ? speaker.talkTimeSec / talkTimeSec : 0;
+    speaker.wordsPerMinute = perMinute(speaker.words, speaker.talkTimeSec);
+  });
+  const languageList = Array.from(languages.values())
+    .map(language => ({ ...language, share: talkTimeSec > 0 ? language.durationSec / talkTimeSec : 0 }))
+    .sort((a, b) => b.durationSec - a.durationSec);
+
+  return {
+    durationSec: segments.length > 0 ? Math.max(...segments.map(s => s.endSec)) - Math.min(...segments.map(s => s.startSec)) : 0,
+    talkTimeSec,
+    words,
+    wordsPerMinute: perMinute(words, talkTimeSec),
+    turns: speakerList.reduce((total, speaker) => total + speaker.turns, 0),
+    interruptions: speakerList.reduce((total, speaker) => total + speaker.interruptions, 0),
+    speakers: speakerList,
+    emotionShifts,
+    languages: languageList,
+  };
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: (string | number)[][]) => rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+
+const percent = (share: number) => (share * 100).toFixed(1);
+
+export const speakersToCsv = (analytics: ConversationAnalytics): string =>
+  toCsv([
+    ['Speaker', 'Talk time (s)', 'Share (%)', 'Turns', 'Interruptions', 'Words', 'Words per minute'],
+    ...analytics.speakers.map(s => [
+      s.name, s.talkTimeSec.toFixed(1), percent(s.share), s.turns, s.interruptions, s.words, Math.round(s.wordsPerMinute),
+    ]),
+  ]);
+
+/** One row per segment with an emotion, plus a column flagging escalations. */
+export const emotionTimelineToCsv = (response: TranscriptionResponse, analytics: ConversationAnalytics): string => {
+  const escalations = new Set(analytics.emotionShifts.filter(shift => shift.escalation).map(shift => `${shift.speaker}@${shift.atSec}`));
+  return toCsv([
+    ['Speaker', 'Start', 'End', 'Emotion', 'Escalation'],
+    ...response.segments
+      .filter(segment => segment.emotion)
+      .map(segment => [
+        segment.speaker,
+        formatClock(segment.startSec),
+        formatClock(segment.endSec),
+        segment.emotion!,
+        escalations.has(`${segment.speaker}@${segment.startSec}`) ? 'yes' : '',
+      ]),
+  ]);
+};
+
+export const languagesToCsv = (analytics: ConversationAnalytics): string =>
+  toCsv([
+    ['Language', 'Code', 'Segments', 'Duration (s)', 'Share (%)'],
+    ...analytics.languages.map(l => [l.language, l.code, l.segmentCount, l.durationSec.toFixed(1), percent(l.share)]),
+  ]);
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Smile, PartyPopper, Meh, CircleHelp, AlertTriangle, Frown, Annoyed, AlertCircle, LucideIcon } from 'lucide-react';
+import { Emotion } from '../types';
+
+export interface EmotionDefinition {
+  label: Emotion;
+  /** Tells the model when to pick this label. */
+  description: string;
+  /** Hex colour for badges and charts. */
+  color: string;
+  icon: LucideIcon;
+  /** How negative the emotion reads, from 0 (positive) to 3 (hostile). Drives escalation flags. */
+  severity: number;
+  /** Offered to the model unless the user picks a different set. */
+  isDefault?: boolean;
+}
+
+/**
+ * The emotion taxonomy. The prompt, response schema, validation, badges and
+ * charts all read from this list, so a new label only needs an entry here.
+ */
+export const EMOTIONS: EmotionDefinition[] = [
+  { label: 'Happy', description: 'pleased, friendly or satisfied', color: '#22c55e', icon: Smile, severity: 0, isDefault: true },
+  { label: 'Excited', description: 'enthusiastic or eager', color: '#14b8a6', icon: PartyPopper, severity: 0 },
+  { label: 'Neutral', description: 'calm or matter-of-fact', color: '#94a3b8', icon: Meh, severity: 1, isDefault: true },
+  { label: 'Confused', description: 'unsure or asking for clarification', color: '#8b5cf6', icon: CircleHelp, severity: 1 },
+  { label: 'Anxious', description: 'worried or nervous', color: '#f59e0b', icon: AlertTriangle, severity: 2 },
+  { label: 'Sad', description: 'disappointed or down', color: '#3b82f6', icon: Frown, severity: 2, isDefault: true },
+  { label: 'Frustrated', description: 'annoyed or impatient, but not hostile', color: '#f97316', icon: Annoyed, severity: 2 },
+  { label: 'Angry', description: 'hostile, raised voice or openly upset', color: '#ef4444', icon: AlertCircle, severity: 3, isDefault: true },
+];
+
+/** Used when a segment needs an emotion and none could be read. */
+export const DEFAULT_EMOTION: Emotion = 'Neutral';
+
+export const DEFAULT_EMOTION_SET: Emotion[] = EMOTIONS.filter(emotion => emotion.isDefault).map(emotion => emotion.label);
+
+/**
+ * Looks up a label, falling back to a neutral-looking definition for labels
+ * no longer in the taxonomy, such as ones in older saved transcripts.
+ */
+export const getEmotion = (label: Emotion): EmotionDefinition =>
+  EMOTIONS.find(emotion => emotion.label === label) ?? { label, description: '', color: '#94a3b8', icon: Meh, severity: 1 };
+
+/**
+ * Matches a label case-insensitively against `allowed`, or returns null
+ * when it is not one of them.
+ */
+export const matchEmotion = (value: unknown, allowed: Emotion[] = EMOTIONS.map(emotion => emotion.label)): Emotion | null => {
+  const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return allowed.find(label => label.toLowerCase() === text) ?? null;
+};
+
+/**
+ * Keeps the labels of `selection` that still exist, in taxonomy order, and
+ * falls back to the default set when none are left.
+ */
+export const normalizeEmotionSet = (selection: unknown): Emotion[] => {
+  const picked = Array.isArray(selection) ? selection : [];
+  const labels = EMOTIONS.map(emotion => emotion.label).filter(label => picked.includes(label));
+  return labels.length > 0 ? labels : DEFAULT_EMOTION_SET;
+};
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CaptureState, CAPTURE_STATE_KEY, IDLE_CAPTURE_STATE, sendExtensionMessage } from './messages';
+
+/**
+ * True when the app runs as the extension's side panel rather than a web page.
+ */
+export const isExtension = (): boolean =>
+  typeof chrome !== 'undefined' && !!chrome.runtime?.id;
+
+export const startTabCapture = () => sendExtensionMessage({ target: 'background', type: 'start-tab-capture' });
+
+export const stopTabCapture = () => sendExtensionMessage({ target: 'background', type: 'stop-tab-capture' });
+
+/** Returns the capture state to idle once a finished recording has been picked up. */
+export const clearTabCapture = () => sendExtensionMessage({ target: 'background', type: 'clear-capture' });
+
+export const getCaptureState = async (): Promise<CaptureState> => {
+  const stored = await chrome.storage.session.get(CAPTURE_STATE_KEY);
+  return (stored[CAPTURE_STATE_KEY] as CaptureState | undefined) ?? IDLE_CAPTURE_STATE;
+};
+
+/**
+ * Calls `listener` whenever the background recording starts, stops or fails.
+ * Returns an unsubscribe function.
+ */
+export const subscribeCaptureState = (listener: (state: CaptureState) => void): (() => void) => {
+  const handleChange = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+    if (area !== 'session' || !(CAPTURE_STATE_KEY in changes)) return;
+    listener((changes[CAPTURE_STATE_KEY].newValue as CaptureState | undefined) ?? IDLE_CAPTURE_STATE);
+  };
+  chrome.storage.onChanged.addListener(handleChange);
+  return () => chrome.storage.onChanged.removeListener(handleChange);
+};
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Message protocol between the side panel, the background service worker
+ * and the offscreen recording document. Every message names its `target`
+ * because all extension pages receive every runtime message.
+ */
+
+export type CaptureStatus = 'idle' | 'recording' | 'saved';
+
+/** Kept in chrome.storage.session so it survives the service worker and the panel closing. */
+export interface CaptureState {
+  status: CaptureStatus;
+  startedAt?: number;
+  tabTitle?: string;
+  error?: string;
+}
+
+export const CAPTURE_STATE_KEY = 'captureState';
+
+export const IDLE_CAPTURE_STATE: CaptureState = { status: 'idle' };
+
+export type BackgroundMessage =
+  | { target: 'background'; type: 'start-tab-capture' }
+  | { target: 'background'; type: 'stop-tab-capture' }
+  | { target: 'background'; type: 'clear-capture' }
+  | { target: 'background'; type: 'recording-saved' }
+  | { target: 'background'; type: 'recording-failed'; error: string };
+
+export type OffscreenMessage =
+  | { target: 'offscreen'; type: 'start-recording'; streamId: string }
+  | { target: 'offscreen'; type: 'stop-recording' };
+
+export type ExtensionMessage = BackgroundMessage | OffscreenMessage;
+
+export interface MessageResponse {
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * Sends a message and turns a failed response into a rejected promise.
+ */
+export const sendExtensionMessage = async (message: ExtensionMessage): Promise<void> => {
+  const response: MessageResponse | undefined = await chrome.runtime.sendMessage(message);
+  if (response && !response.ok) throw new Error(response.error ?? 'The extension did not respond.');
+};
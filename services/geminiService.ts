@@ -3,44 +3,79 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { TranscriptionSegment, Emotion } from "../types";
-
-const parseJson = (text: string) => {
-    try {
-        const cleanText = text.replace(/```json\n|\n```/g, "").trim();
-        return JSON.parse(cleanText);
-    } catch (e) {
-        console.error("Failed to parse JSON response:", e);
-        return [];
-    }
-};
+import { GoogleGenAI, Type, Content } from "@google/genai";
+import { TranscriptionResponse, TranscriptionRequest, ChunkContext, TranscriptAnalysis, ChatMessage, PiiMatch } from "../types";
+import { parseModelJson, validateTranscription, TranscriptionValidationError } from "./transcriptionValidator";
+import { getApiKey, MissingApiKeyError } from "./apiKey";
+import { DEFAULT_TRANSCRIPTION_REQUEST } from "./transcriptionSettings";
+import { formatTranscriptForPrompt, parseAnalysis } from "./transcriptAnalysis";
+import { getEmotion } from "./emotions";
+import { PII_KINDS, parsePiiReply } from "./redaction";
 
-export const transcribeAudio = async (
-  base64Audio: string,
-  mimeType: string
-): Promise<{ segments: TranscriptionSegment[]; summary: string }> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing. Please ensure process.env.API_KEY is available.");
+// A reply with an unusable structure is retried with a corrective prompt.
+const MAX_ATTEMPTS = 3;
+
+const getClient = async () => {
+  const apiKey = await getApiKey();
+  if (!apiKey) {
+    throw new MissingApiKeyError();
   }
+  return new GoogleGenAI({ apiKey });
+};
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Using gemini-3-flash-preview for fast multimodal processing
+export const DEFAULT_MODEL_ID = "gemini-3-flash-preview";
 
-  // Using gemini-3-flash-preview for fast multimodal processing
-  const modelId = "gemini-3-flash-preview";
+/**
+ * Writes the transcription instructions for the given choices.
+ */
+export const buildTranscriptionPrompt = (request: TranscriptionRequest = DEFAULT_TRANSCRIPTION_REQUEST): string => {
+  const { targetLanguage, speakerCount, speakerNames, vocabulary, style, instructions, fields, emotions } = request;
 
-  const prompt = `
+  const speakers = [
+    speakerCount > 0 ? `There are ${speakerCount} speakers.` : "",
+    speakerNames.length > 0
+      ? `Known speakers: ${speakerNames.join(", ")}. Use these names as labels when you can tell who is talking, and Speaker N for anyone else.`
+      : "Identify distinct speakers (e.g., Speaker 1, Speaker 2, or names if context allows).",
+  ].filter(Boolean).join(" ");
+
+  const requirements = [
+    speakers,
+    "Provide accurate start and end timestamps for each segment (Format: MM:SS - MM:SS, or HH:MM:SS - HH:MM:SS past the first hour).",
+    "Detect the primary language of each segment.",
+    targetLanguage
+      ? `If the segment is in a language different than ${targetLanguage}, also provide the ${targetLanguage} translation.`
+      : "Do not translate; leave \"translation\" out.",
+    fields.includes('emotion')
+      ? `Identify the primary emotion of the speaker in this segment. You MUST choose exactly one of the following: ${emotions.map(label => `${label} (${getEmotion(label).description})`).join(", ")}. Rate how sure you are from 0 to 1 as "emotion_confidence".`
+      : "",
+    fields.includes('sentiment')
+      ? "Score the sentiment of each segment from -1 (very negative) through 0 (neutral) to 1 (very positive)."
+      : "",
+    fields.includes('words')
+      ? "List every word of each segment in \"words\" with its start and end in seconds from the beginning of the audio (e.g. 12.48), and how sure you are of the word from 0 to 1."
+      : "",
+    fields.includes('summary')
+      ? "Provide a brief summary of the entire audio at the beginning."
+      : "Leave \"summary\" as an empty string.",
+    style === 'clean'
+      ? "Write a clean read: drop filler words, false starts and stutters, and fix slips of grammar without changing the meaning."
+      : "Transcribe verbatim: keep filler words, false starts and repetitions exactly as spoken.",
+    vocabulary.length > 0
+      ? `These terms may come up; spell them exactly like this: ${vocabulary.join(", ")}.`
+      : "",
+  ].filter(Boolean);
+
+  return `
     You are an expert audio transcription assistant.
     Process the provided audio file and generate a detailed transcription.
     
     Requirements:
-    1. Identify distinct speakers (e.g., Speaker 1, Speaker 2, or names if context allows).
-    2. Provide accurate timestamps for each segment (Format: MM:SS).
-    3. Detect the primary language of each segment.
-    4. If the segment is in a language different than English, also provide the English translation.
-    5. Identify the primary emotion of the speaker in this segment. You MUST choose exactly one of the following: Happy, Sad, Angry, Neutral.
-    6. Provide a brief summary of the entire audio at the beginning.
-    
+${requirements.map((line, i) => `    ${i + 1}. ${line}`).join("\n")}
+    ${instructions.trim() ? `
+    About this recording:
+    ${instructions.trim()}
+    ` : ""}
     Output Format: JSON object with the following structure:
     {
       "summary": "A brief summary of the conversation...",
@@ -50,75 +85,401 @@ export const transcribeAudio = async (
           "timestamp": "00:00 - 00:15",
           "content": "Hello, how are you doing today?",
           "language": "English",
-          "language_code": "en",
-          "translation": "",
-          "emotion": "Happy"
+          "language_code": "en",${targetLanguage ? `
+          "translation": "",` : ""}${fields.includes('emotion') ? `
+          "emotion": "${emotions[0]}",
+          "emotion_confidence": 0.8,` : ""}${fields.includes('sentiment') ? `
+          "sentiment": 0.4,` : ""}${fields.includes('words') ? `
+          "words": [{ "word": "Hello,", "start": 0.42, "end": 0.81, "confidence": 0.97 }, ...],` : ""}
         },
         ...
       ]
     }
   `;
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Audio,
-            },
-          },
-          {
-            text: prompt,
-          },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            summary: {
+export const DEFAULT_TRANSCRIPTION_PROMPT = buildTranscriptionPrompt();
+
+/**
+ * The structured-output schema; translation, emotion, sentiment and word
+ * timings are only offered when they were asked for.
+ */
+const buildResponseSchema = ({ targetLanguage, fields, emotions }: TranscriptionRequest) => ({
+  type: Type.OBJECT,
+  properties: {
+    summary: {
+      type: Type.STRING,
+      description: "A concise summary of the audio content.",
+    },
+    segments: {
+      type: Type.ARRAY,
+      description: "List of transcribed segments with speaker and timestamp.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          speaker: { type: Type.STRING },
+          timestamp: { type: Type.STRING },
+          content: { type: Type.STRING },
+          language: { type: Type.STRING },
+          language_code: { type: Type.STRING },
+          ...(targetLanguage && {
+            translation: {
               type: Type.STRING,
-              description: "A concise summary of the audio content.",
+              description: `${targetLanguage} translation, or empty when the segment is already in ${targetLanguage}.`,
+            },
+          }),
+          ...(fields.includes('emotion') && {
+            emotion: { 
+              type: Type.STRING, 
+              description: "The emotion of the speaker.",
+              enum: emotions
+            },
+            emotion_confidence: {
+              type: Type.NUMBER,
+              description: "Confidence in the emotion, from 0 to 1.",
+            },
+          }),
+          ...(fields.includes('sentiment') && {
+            sentiment: {
+              type: Type.NUMBER,
+              description: "Sentiment from -1 (very negative) to 1 (very positive).",
             },
-            segments: {
+          }),
+          ...(fields.includes('words') && {
+            words: {
               type: Type.ARRAY,
-              description: "List of transcribed segments with speaker and timestamp.",
+              description: "Every word of the segment, in order.",
               items: {
                 type: Type.OBJECT,
                 properties: {
-                  speaker: { type: Type.STRING },
-                  timestamp: { type: Type.STRING },
-                  content: { type: Type.STRING },
-                  language: { type: Type.STRING },
-                  language_code: { type: Type.STRING },
-                  translation:  { type: Type.STRING },
-                  emotion: { 
-                    type: Type.STRING, 
-                    description: "The emotion of the speaker.",
-                    enum: Object.values(Emotion)
-                  },
+                  word: { type: Type.STRING },
+                  start: { type: Type.NUMBER, description: "Start in seconds from the beginning of the audio." },
+                  end: { type: Type.NUMBER, description: "End in seconds from the beginning of the audio." },
+                  confidence: { type: Type.NUMBER, description: "Confidence in the word, from 0 to 1." },
                 },
-                required: ["speaker", "timestamp", "content", "language", "language_code", "emotion"],
+                required: ["word", "start", "end", "confidence"],
               },
             },
+          }),
+        },
+        required: [
+          "speaker", "timestamp", "content", "language", "language_code",
+          ...(fields.includes('emotion') ? ["emotion", "emotion_confidence"] : []),
+          ...(fields.includes('sentiment') ? ["sentiment"] : []),
+          ...(fields.includes('words') ? ["words"] : []),
+        ],
+      },
+    },
+  },
+  required: ["summary", "segments"],
+});
+
+export interface GeminiRequestOptions {
+  model?: string;
+  temperature?: number;
+  request?: TranscriptionRequest;
+  prompt?: string;
+  chunk?: ChunkContext;
+  signal?: AbortSignal;
+}
+
+export const transcribeAudio = async (
+  base64Audio: string,
+  mimeType: string,
+  options: GeminiRequestOptions = {}
+): Promise<TranscriptionResponse> => {
+  const ai = await getClient();
+  const { model = DEFAULT_MODEL_ID, temperature, request = DEFAULT_TRANSCRIPTION_REQUEST, chunk, signal } = options;
+  const basePrompt = options.prompt ?? buildTranscriptionPrompt(request);
+
+  const chunkNote = chunk && chunk.totalParts > 1
+    ? `
+    Note: This audio is part ${chunk.part} of ${chunk.totalParts} of a longer recording.
+    Timestamps must be relative to the start of this clip. Summarize only this part.
+    `
+    : "";
+
+  const prompt = `${basePrompt}
+    ${chunkNote}
+  `;
+
+  const contents: Content[] = [
+    {
+      role: "user",
+      parts: [
+        {
+          inlineData: {
+            mimeType: mimeType,
+            data: base64Audio,
           },
-          required: ["summary", "segments"],
         },
+        {
+          text: prompt,
+        },
+      ],
+    },
+  ];
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      const response = await ai.models.generateContent({
+        model,
+        contents,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: buildResponseSchema(request),
+          temperature,
+          abortSignal: signal,
+        },
+      });
+
+      const text = response.text;
+      if (!text) throw new Error("No response text received from Gemini.");
+
+      try {
+        return validateTranscription(parseModelJson(text), { expectEmotion: request.fields.includes('emotion') });
+      } catch (error) {
+        if (!(error instanceof TranscriptionValidationError) || attempt >= MAX_ATTEMPTS) throw error;
+
+        console.warn(`Invalid transcription structure (attempt ${attempt}):`, error.message);
+        contents.push(
+          { role: "model", parts: [{ text }] },
+          {
+            role: "user",
+            parts: [{
+              text: `Your previous response could not be used: ${[error.message, ...error.issues].join(" ")}
+              Reply again with only a JSON object that has a "summary" string and a "segments" array,
+              where every segment has speaker, timestamp (MM:SS - MM:SS), content, language, language_code${request.fields.includes('emotion') ? " and emotion" : ""}.`,
+            }],
+          }
+        );
+      }
+    }
+  } catch (error) {
+    console.error("Gemini Transcription Error:", error);
+    throw error;
+  }
+};
+
+/**
+ * Combines the per-chunk summaries of a long recording into one summary.
+ */
+export const combineSummaries = async (
+  summaries: string[],
+  model: string = DEFAULT_MODEL_ID
+): Promise<string> => {
+  const parts = summaries.filter(s => s.trim().length > 0);
+  if (parts.length <= 1) return parts[0] ?? "";
+
+  const ai = await getClient();
+
+  const prompt = `
+    The following are summaries of consecutive parts of one audio recording, in order.
+    Write a single brief summary of the entire recording. Do not mention the parts.
+
+    ${parts.map((summary, i) => `Part ${i + 1}: ${summary}`).join("\n")}
+  `;
+
+  try {
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+    });
+    return response.text?.trim() || parts.join(" ");
+  } catch (error) {
+    console.error("Gemini Summary Error:", error);
+    return parts.join(" ");
+  }
+};
+
+const ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    actionItems: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          task: { type: Type.STRING },
+          owner: { type: Type.STRING, description: "Speaker responsible, or empty if nobody took it on." },
+          due: { type: Type.STRING, description: "Deadline as mentioned, or empty." },
+          segment: { type: Type.INTEGER, description: "Number of the line where the task came up." },
+        },
+        required: ["task", "segment"],
+      },
+    },
+    decisions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          segment: { type: Type.INTEGER },
+        },
+        required: ["text", "segment"],
+      },
+    },
+    chapters: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          startSegment: { type: Type.INTEGER },
+          endSegment: { type: Type.INTEGER },
+        },
+        required: ["title", "startSegment", "endSegment"],
+      },
+    },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["actionItems", "decisions", "chapters", "tags"],
+};
+
+/**
+ * Second pass over a finished transcript: action items, decisions,
+ * chapters and topic tags.
+ */
+export const analyzeTranscript = async (
+  transcript: TranscriptionResponse,
+  options: { model?: string; signal?: AbortSignal } = {}
+): Promise<TranscriptAnalysis> => {
+  const { model = DEFAULT_MODEL_ID, signal } = options;
+  const ai = await getClient();
+
+  const prompt = `
+    Below is a transcript, one numbered line per segment: [number] start time, speaker, then what was said.
+    Extract:
+    1. Action items: tasks someone agreed to do. Give the speaker who owns it and any deadline as it was said.
+    2. Decisions the speakers reached.
+    3. Chapters: consecutive, non-overlapping sections covering the whole transcript, each with a short title.
+    4. Up to 8 short keyword or topic tags.
+    Refer to lines by their number. Leave a list empty when there is nothing for it; do not invent anything.
+
+    ${formatTranscriptForPrompt(transcript)}
+  `;
+
+  try {
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: ANALYSIS_SCHEMA,
+        abortSignal: signal,
       },
     });
 
     const text = response.text;
     if (!text) throw new Error("No response text received from Gemini.");
+    return parseAnalysis(parseModelJson(text), transcript);
+  } catch (error) {
+    console.error("Gemini Analysis Error:", error);
+    throw error;
+  }
+};
+
+/**
+ * Answers a question about a transcript, given the conversation so far.
+ * Answers cite the lines they rely on as [n].
+ */
+export const askAboutTranscript = async (
+  transcript: TranscriptionResponse,
+  history: ChatMessage[],
+  question: string,
+  options: { model?: string; signal?: AbortSignal } = {}
+): Promise<string> => {
+  const { model = DEFAULT_MODEL_ID, signal } = options;
+  const ai = await getClient();
+
+  const systemInstruction = `
+    You answer questions about the transcript below, one numbered line per segment.
+    Use only what the transcript says; if it does not cover the question, say so.
+    After each claim, cite the line numbers it comes from in square brackets, e.g. [3] or [3, 7].
+    Keep answers short and in plain text.
+
+    ${formatTranscriptForPrompt(transcript)}
+  `;
+
+  const contents: Content[] = [
+    ...history.map(message => ({
+      role: message.role === 'user' ? "user" : "model",
+      parts: [{ text: message.text }],
+    })),
+    { role: "user", parts: [{ text: question }] },
+  ];
+
+  try {
+    const response = await ai.models.generateContent({
+      model,
+      contents,
+      config: { systemInstruction, abortSignal: signal },
+    });
+    const text = response.text?.trim();
+    if (!text) throw new Error("No response text received from Gemini.");
+    return text;
+  } catch (error) {
+    console.error("Gemini Chat Error:", error);
+    throw error;
+  }
+};
+
+const PII_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    items: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          segment: { type: Type.INTEGER, description: "Number of the line the personal data is in." },
+          text: { type: Type.STRING, description: "The personal data exactly as written in that line." },
+          kind: { type: Type.STRING, enum: PII_KINDS.map(entry => entry.kind) },
+        },
+        required: ["segment", "text", "kind"],
+      },
+    },
+  },
+  required: ["items"],
+};
 
-    const data = parseJson(text);
-    return data;
+/**
+ * Looks for personal data the local patterns cannot recognise reliably,
+ * such as names mentioned in passing or addresses spelled out in words.
+ */
+export const detectPii = async (
+  transcript: TranscriptionResponse,
+  options: { model?: string; signal?: AbortSignal } = {}
+): Promise<PiiMatch[]> => {
+  const { model = DEFAULT_MODEL_ID, signal } = options;
+  const ai = await getClient();
+
+  const prompt = `
+    Below is a transcript of a call, one numbered line per segment: [number] start time, speaker, then what was said.
+    List every piece of personal data about a person in it: ${PII_KINDS.map(entry => entry.label.toLowerCase()).join(", ")}.
+    Include numbers and addresses that were spelled out or said in words.
+    Quote each one exactly as it is written in its line, once per line it appears in.
+    Do not list company names, product names or the speaker labels themselves.
+
+    ${formatTranscriptForPrompt(transcript)}
+  `;
+
+  try {
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: PII_SCHEMA,
+        abortSignal: signal,
+      },
+    });
 
+    const text = response.text;
+    if (!text) throw new Error("No response text received from Gemini.");
+    return parsePiiReply(parseModelJson(text), transcript);
   } catch (error) {
-    console.error("Gemini Transcription Error:", error);
+    console.error("Gemini PII Error:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { TranscriptionResponse, TranscriptionSegment } from '../types';
+import { encodeWav } from './audioProcessing';
+import { validateTranscription } from './transcriptionValidator';
+import { mapWordTimes } from './wordTimings';
+import { formatTimestampRange, roundMs } from '../utils/time';
+
+/**
+ * A stretch of the live recording sent for transcription. Segment times in
+ * the reply are relative to `start`.
+ */
+export interface LiveWindow {
+  index: number;
+  audio: Blob;
+  start: number;
+  end: number;
+}
+
+/**
+ * Sends live windows somewhere to be transcribed. Kept separate from the
+ * session so the same loop can talk to a provider in-process or to a server.
+ */
+export interface LiveTransport {
+  transcribeWindow: (window: LiveWindow, signal: AbortSignal) => Promise<TranscriptionResponse>;
+}
+
+export interface LiveSessionOptions {
+  /** Receives every segment transcribed so far, all marked provisional. */
+  onUpdate: (segments: TranscriptionSegment[]) => void;
+  onError?: (error: unknown) => void;
+  /** New audio needed before the next window is sent. */
+  intervalSec?: number;
+  /**
+   * Segments ending this close to the live edge may be cut mid-sentence, so
+   * they are held back and sent again with the next window.
+   */
+  edgeGuardSec?: number;
+}
+
+export interface LiveSession {
+  /** Adds the next stretch of captured mono audio. */
+  push: (samples: Float32Array, sampleRate: number) => void;
+  /** Stops sending windows and cancels any request in flight. */
+  close: () => void;
+}
+
+const DEFAULT_INTERVAL_SEC = 10;
+const DEFAULT_EDGE_GUARD_SEC = 2;
+// Past this length a window keeps every segment, so unbroken speech still shows up.
+const MAX_WINDOW_SEC = 60;
+
+/**
+ * Transcribes a recording while it is still running. Captured samples are
+ * buffered only from the last segment that was kept onwards, and each window
+ * sends that audio, so the cost of a window does not grow with the length of
+ * the recording. Only one window is in flight at a time; a slow transport
+ * simply gets longer windows.
+ */
+export const createLiveSession = (transport: LiveTransport, options: LiveSessionOptions): LiveSession => {
+  const {
+    onUpdate,
+    onError,
+    intervalSec = DEFAULT_INTERVAL_SEC,
+    edgeGuardSec = DEFAULT_EDGE_GUARD_SEC,
+  } = options;
+  const segments: TranscriptionSegment[] = [];
+  const controller = new AbortController();
+  // Captured audio not yet transcribed for good, and the sample it starts at.
+  let buffered: Float32Array[] = [];
+  let bufferedFrom = 0;
+  let recorded = 0;
+  let sampleRate = 0;
+  let cursor = 0;
+  let windowIndex = 0;
+  let inFlight = false;
+  // After a failed window, wait for this much recorded audio before trying again.
+  let retryAtSec = 0;
+
+  const recordedSec = () => (sampleRate > 0 ? recorded / sampleRate : 0);
+
+  // Copies the buffered audio from `sec` up to sample `to` into one array.
+  const samplesBetween = (sec: number, to: number): Float32Array => {
+    const from = Math.max(bufferedFrom, Math.floor(sec * sampleRate));
+    const out = new Float32Array(Math.max(0, to - from));
+    let position = bufferedFrom;
+    for (const chunk of buffered) {
+      const chunkEnd = position + chunk.length;
+      if (chunkEnd > from && position < to) {
+        const begin = Math.max(from, position);
+        out.set(chunk.subarray(begin - position, Math.min(to, chunkEnd) - position), begin - from);
+      }
+      position = chunkEnd;
+    }
+    return out;
+  };
+
+  // Drops buffered chunks that end before `sec`; that audio will not be sent again.
+  const discardBefore = (sec: number) => {
+    const limit = Math.floor(sec * sampleRate);
+    while (buffered.length > 0 && bufferedFrom + buffered[0].length <= limit) {
+      bufferedFrom += buffered[0].length;
+      buffered = buffered.slice(1);
+    }
+  };
+
+  const runWindow = async () => {
+    inFlight = true;
+    try {
+      const to = recorded;
+      const end = to / sampleRate;
+      // While windows keep failing the cursor stands still; give up on audio
+      // older than one full window so requests and the buffer stay bounded.
+      cursor = Math.max(cursor, end - MAX_WINDOW_SEC);
+      discardBefore(cursor);
+      const start = cursor;
+      const reply = await transport.transcribeWindow(
+        { index: windowIndex++, audio: encodeWav(samplesBetween(start, to), sampleRate), start, end },
+        controller.signal
+      );
+      if (controller.signal.aborted) return;
+
+      const holdBack = end - start < MAX_WINDOW_SEC ? edgeGuardSec : 0;
+      const kept = reply.segments
+        .map(segment => {
+          const startSec = roundMs(segment.startSec + start);
+          const endSec = roundMs(Math.min(segment.endSec + start, end));
+          const shifted = { ...segment, startSec, endSec, timestamp: formatTimestampRange(startSec, endSec), provisional: true };
+          return mapWordTimes(shifted, sec => Math.min(sec + start, end));
+        })
+        .filter(segment => segment.startSec >= start && segment.endSec <= end - holdBack);
+
+      if (kept.length > 0) {
+        segments.push(...kept);
+        cursor = kept[kept.length - 1].endSec;
+        onUpdate([...segments]);
+      } else if (reply.segments.length === 0) {
+        // Nothing was said, so there is no need to send this audio again.
+        cursor = Math.max(cursor, end - edgeGuardSec);
+      }
+      discardBefore(cursor);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      retryAtSec = recordedSec() + intervalSec;
+      onError?.(err);
+    } finally {
+      inFlight = false;
+    }
+  };
+
+  return {
+    push: (samples, rate) => {
+      if (controller.signal.aborted || samples.length === 0) return;
+      sampleRate = rate;
+      buffered.push(samples);
+      recorded += samples.length;
+      if (!inFlight && recordedSec() - cursor >= intervalSec && recordedSec() >= retryAtSec) runWindow();
+    },
+    close: () => controller.abort(),
+  };
+};
+
+/**
+ * Posts each window as WAV to `url` and expects a transcription response
+ * back, e.g. from a local stand-in server during development and tests.
+ */
+export const createHttpTransport = (url: string): LiveTransport => ({
+  transcribeWindow: async (window, signal) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      body: window.audio,
+      headers: {
+        'Content-Type': window.audio.type,
+        'X-Window-Index': String(window.index),
+        'X-Window-Start': String(window.start),
+      },
+      signal,
+    });
+    if (!response.ok) throw new Error(`Live transcription server responded with ${response.status}`);
+    return validateTranscription(await response.json());
+  },
+});
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A minimal Ogg muxer for the raw Opus packets WebCodecs produces, which
+ * come without a container (RFC 7845).
+ */
+
+export interface OpusPacket {
+  data: Uint8Array;
+  /** Packet length in microseconds, as reported by EncodedAudioChunk. */
+  durationUs: number;
+}
+
+// Encoder delay at 48 kHz that decoders drop from the start; libopus uses 312.
+const PRE_SKIP = 312;
+// Packets are never split across pages, so a page holds at most this many lacing values.
+const MAX_SEGMENTS_PER_PAGE = 255;
+const FLAG_FIRST = 0x02;
+const FLAG_LAST = 0x04;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let bit = 0; bit < 8; bit++) r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+const oggCrc = (data: Uint8Array) => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ data[i]) & 0xff]) >>> 0;
+  return crc;
+};
+
+const lacing = (length: number): number[] => [
+  ...new Array(Math.floor(length / 255)).fill(255),
+  length % 255,
+];
+
+const SERIAL = 0x45636f53; // "EcoS"
+
+const buildPage = (packets: Uint8Array[], granule: number, sequence: number, flags: number): Uint8Array => {
+  const segments = packets.flatMap(packet => lacing(packet.length));
+  const bodyLength = packets.reduce((total, packet) => total + packet.length, 0);
+  const page = new Uint8Array(27 + segments.length + bodyLength);
+  const view = new DataView(page.buffer);
+
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  view.setUint8(5, flags);
+  view.setBigUint64(6, BigInt(granule), true);
+  view.setUint32(14, SERIAL, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, segments.length);
+  page.set(segments, 27);
+  let offset = 27 + segments.length;
+  packets.forEach(packet => {
+    page.set(packet, offset);
+    offset += packet.length;
+  });
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+};
+
+const opusHead = (inputSampleRate: number) => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  view.setUint8(8, 1); // version
+  view.setUint8(9, 1); // mono
+  view.setUint16(10, PRE_SKIP, true);
+  view.setUint32(12, inputSampleRate, true);
+  return head;
+};
+
+const opusTags = () => {
+  const vendor = new TextEncoder().encode('EchoScript');
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(new TextEncoder().encode('OpusTags'));
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  return tags;
+};
+
+/**
+ * Wraps mono Opus packets in an Ogg stream playable as audio/ogg.
+ */
+export const muxOggOpus = (packets: OpusPacket[], inputSampleRate: number): Blob => {
+  const pages: Uint8Array[] = [
+    buildPage([opusHead(inputSampleRate)], 0, 0, FLAG_FIRST),
+    buildPage([opusTags()], 0, 1, 0),
+  ];
+
+  let granule = PRE_SKIP;
+  let pending: Uint8Array[] = [];
+  let pendingSegments = 0;
+
+  const flush = (last: boolean) => {
+    pages.push(buildPage(pending, granule, pages.length, last ? FLAG_LAST : 0));
+    pending = [];
+    pendingSegments = 0;
+  };
+
+  packets.forEach(packet => {
+    const segments = lacing(packet.data.length).length;
+    if (pendingSegments + segments > MAX_SEGMENTS_PER_PAGE) flush(false);
+    pending.push(packet.data);
+    pendingSegments += segments;
+    granule += Math.round((packet.durationUs * 48000) / 1e6);
+  });
+  flush(true);
+
+  return new Blob(pages, { type: 'audio/ogg' });
+};
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { transcribeAudio, combineSummaries, analyzeTranscript, askAboutTranscript, detectPii, DEFAULT_MODEL_ID } from '../geminiService';
+import { transcribeLongAudio } from '../chunkedTranscription';
+import { blobToBase64 } from '../audioProcessing';
+import { TranscriptionProvider } from './types';
+
+export const geminiProvider: TranscriptionProvider = {
+  id: 'gemini',
+  label: 'Gemini 3 Flash Preview',
+  requiresApiKey: true,
+  models: [
+    { id: DEFAULT_MODEL_ID, label: 'Gemini 3 Flash (fast)' },
+    { id: 'gemini-3-pro-preview', label: 'Gemini 3 Pro (most accurate)' },
+    { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
+    { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
+  ],
+  transcribe: (audio, options = {}) => {
+    const { model = DEFAULT_MODEL_ID, temperature, request, prompt, onProgress, signal } = options;
+    return transcribeLongAudio(
+      audio,
+      {
+        transcribe: (base64, mimeType, chunk) =>
+          transcribeAudio(base64, mimeType, { model, temperature, request, prompt, chunk, signal }),
+        combineSummaries: summaries => combineSummaries(summaries, model),
+      },
+      { onProgress, signal }
+    );
+  },
+  createLiveTransport: (options = {}) => ({
+    transcribeWindow: async (window, signal) => {
+      const { model = DEFAULT_MODEL_ID, temperature, request, prompt } = options;
+      return transcribeAudio(await blobToBase64(window.audio), window.audio.type, { model, temperature, request, prompt, signal });
+    },
+  }),
+  analyzeTranscript: (transcript, { model, signal } = {}) => analyzeTranscript(transcript, { model, signal }),
+  askAboutTranscript: (transcript, history, question, { model, signal } = {}) =>
+    askAboutTranscript(transcript, history, question, { model, signal }),
+  detectPii: (transcript, { model, signal } = {}) => detectPii(transcript, { model, signal }),
+};
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { geminiProvider } from './gemini';
+import { mockProvider } from './mock';
+import { TranscriptionProvider, TranscriptionOptions, TranscriptAnalyzer } from './types';
+import { createHttpTransport, LiveTransport } from '../liveTranscription';
+import { TranscriptionSettings, toRequest } from '../transcriptionSettings';
+
+export type { TranscriptionProvider, TranscriptionOptions, TranscriptAnalyzer } from './types';
+
+export const PROVIDERS: TranscriptionProvider[] = [geminiProvider, mockProvider];
+
+const STORAGE_KEY = 'echoscript.provider';
+
+export const getProvider = (id: string): TranscriptionProvider =>
+  PROVIDERS.find(provider => provider.id === id) ?? geminiProvider;
+
+/**
+ * Picks the provider to start with: the user's last choice, then the
+ * TRANSCRIPTION_PROVIDER build variable, then Gemini.
+ */
+export const getInitialProviderId = (): string => {
+  const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+  const candidate = stored || process.env.TRANSCRIPTION_PROVIDER;
+  return getProvider(candidate ?? '').id;
+};
+
+export const saveProviderId = (id: string) => {
+  localStorage.setItem(STORAGE_KEY, id);
+};
+
+/**
+ * Picks the transport for live transcription: the LIVE_TRANSCRIPTION_URL
+ * server when one is configured, otherwise the provider's own, if any.
+ */
+export const getLiveTransport = (provider: TranscriptionProvider, options?: TranscriptionOptions): LiveTransport | null => {
+  if (process.env.LIVE_TRANSCRIPTION_URL) return createHttpTransport(process.env.LIVE_TRANSCRIPTION_URL);
+  return provider.createLiveTransport?.(options) ?? null;
+};
+
+/**
+ * Turns the user's settings into request options for `provider`. A model
+ * picked for another provider falls back to this one's default.
+ */
+export const toProviderOptions = (provider: TranscriptionProvider, settings: TranscriptionSettings): TranscriptionOptions => ({
+  model: provider.models?.some(model => model.id === settings.model) ? settings.model : undefined,
+  temperature: settings.temperature ?? undefined,
+  request: toRequest(settings),
+});
+
+/**
+ * Binds the provider's follow-up analysis to the current options, or returns
+ * null when the provider cannot analyze transcripts.
+ */
+export const getTranscriptAnalyzer = (provider: TranscriptionProvider, options: TranscriptionOptions = {}): TranscriptAnalyzer | null => {
+  const { analyzeTranscript, askAboutTranscript, detectPii } = provider;
+  if (!analyzeTranscript || !askAboutTranscript) return null;
+  return {
+    analyze: (transcript, signal) => analyzeTranscript(transcript, { ...options, signal }),
+    ask: (transcript, history, question, signal) => askAboutTranscript(transcript, history, question, { ...options, signal }),
+    detectPii: detectPii && ((transcript, signal) => detectPii(transcript, { ...options, signal })),
+  };
+};
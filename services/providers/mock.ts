@@ -0,0 +1,202 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ActionItem, Chapter, Decision, TranscriptAnalysis, TranscriptionResponse, TranscriptionSegment } from '../../types';
+import { formatTimestampRange, roundMs } from '../../utils/time';
+import { TranscriptionProvider } from './types';
+
+const FIXTURE: TranscriptionResponse = {
+  summary: 'A short planning call in which two colleagues review the release schedule, agree to move the launch by one week, and assign follow-up tasks.',
+  segments: [
+    {
+      speaker: 'Speaker 1',
+      timestamp: '00:00 - 00:08',
+      startSec: 0,
+      endSec: 8,
+      content: 'Good morning, thanks for joining. Let us go through the release schedule first.',
+      language: 'English',
+      language_code: 'en',
+      emotion: 'Happy',
+      emotionConfidence: 0.86,
+      sentiment: 0.6,
+    },
+    {
+      speaker: 'Speaker 2',
+      timestamp: '00:08 - 00:17',
+      startSec: 8,
+      endSec: 17,
+      content: 'Sure. Honestly, I am worried we will not make the date with the current test backlog.',
+      language: 'English',
+      language_code: 'en',
+      emotion: 'Sad',
+      emotionConfidence: 0.71,
+      sentiment: -0.4,
+    },
+    {
+      speaker: 'Speaker 1',
+      timestamp: '00:17 - 00:26',
+      startSec: 17,
+      endSec: 26,
+      content: 'Entonces movemos el lanzamiento una semana y cerramos los errores críticos primero.',
+      language: 'Spanish',
+      language_code: 'es',
+      translation: 'Then we move the launch by a week and close the critical bugs first.',
+      emotion: 'Neutral',
+      emotionConfidence: 0.9,
+      sentiment: 0.1,
+    },
+    {
+      speaker: 'Speaker 2',
+      timestamp: '00:26 - 00:33',
+      startSec: 26,
+      endSec: 33,
+      content: 'That works. We cannot ship again with broken exports, that was a disaster last time.',
+      language: 'English',
+      language_code: 'en',
+      emotion: 'Angry',
+      emotionConfidence: 0.64,
+      sentiment: -0.7,
+    },
+    {
+      speaker: 'Speaker 1',
+      timestamp: '00:33 - 00:41',
+      startSec: 33,
+      endSec: 41,
+      content: 'Agreed. I will update the plan today and you take the export fixes.',
+      language: 'English',
+      language_code: 'en',
+      emotion: 'Neutral',
+      emotionConfidence: 0.78,
+      sentiment: 0.3,
+    },
+  ],
+};
+
+const SIMULATED_LATENCY_MS = 600;
+
+const copyFixture = () => JSON.parse(JSON.stringify(FIXTURE)) as TranscriptionResponse;
+
+// Long words get a low confidence so the review shading has something to show.
+const LONG_WORD_LENGTH = 9;
+
+/**
+ * Spreads a segment's time over its words in proportion to their length,
+ * standing in for real word-level timing.
+ */
+const withWordTimings = (segment: TranscriptionSegment): TranscriptionSegment => {
+  const texts = segment.content.split(/\s+/).filter(Boolean);
+  const totalChars = texts.reduce((total, text) => total + text.length, 0);
+  const secPerChar = (segment.endSec - segment.startSec) / Math.max(1, totalChars);
+  let cursor = segment.startSec;
+  const words = texts.map(text => {
+    const startSec = roundMs(cursor);
+    cursor += text.length * secPerChar;
+    return { text, startSec, endSec: roundMs(cursor), confidence: text.length > LONG_WORD_LENGTH ? 0.52 : 0.94 };
+  });
+  return { ...segment, words };
+};
+
+const ACTION_PATTERN = /\b(i will|i'll|you take|we need to|let's)\b/i;
+const DUE_PATTERN = /\b(today|tomorrow|this week|next week|by \w+day)\b/i;
+const DECISION_PATTERN = /\b(agreed|decided|we move|that works|let's go with)\b/i;
+const SEGMENTS_PER_CHAPTER = 3;
+const MAX_TAGS = 6;
+
+const words = (text: string) => text.toLowerCase().match(/\p{L}+/gu) ?? [];
+
+/**
+ * Keyword heuristics standing in for a model: sentences with commitments
+ * become action items, agreements become decisions, and every few
+ * segments start a chapter.
+ */
+const analyzeFixture = (transcript: TranscriptionResponse): TranscriptAnalysis => {
+  const textOf = (i: number) => transcript.segments[i].translation || transcript.segments[i].content;
+
+  const actionItems: ActionItem[] = [];
+  const decisions: Decision[] = [];
+  transcript.segments.forEach((segment, i) => {
+    const text = textOf(i);
+    if (ACTION_PATTERN.test(text)) {
+      const due = text.match(DUE_PATTERN)?.[0];
+      actionItems.push({ task: text, owner: segment.speaker, startSec: segment.startSec, ...(due ? { due } : {}) });
+    }
+    if (DECISION_PATTERN.test(text)) decisions.push({ text, startSec: segment.startSec });
+  });
+
+  const chapters: Chapter[] = [];
+  for (let i = 0; i < transcript.segments.length; i += SEGMENTS_PER_CHAPTER) {
+    const group = transcript.segments.slice(i, i + SEGMENTS_PER_CHAPTER);
+    chapters.push({
+      title: words(textOf(i)).slice(0, 5).join(' '),
+      startSec: group[0].startSec,
+      endSec: group[group.length - 1].endSec,
+    });
+  }
+
+  const counts = new Map<string, number>();
+  transcript.segments.forEach((_, i) => words(textOf(i))
+    .filter(word => word.length >= 6)
+    .forEach(word => counts.set(word, (counts.get(word) ?? 0) + 1)));
+  const tags = [...counts].sort((a, b) => b[1] - a[1] || b[0].length - a[0].length).slice(0, MAX_TAGS).map(([word]) => word);
+
+  return { actionItems, decisions, chapters, tags, createdAt: Date.now() };
+};
+
+/** Quotes the segments sharing the most words with the question. */
+const answerFromFixture = (transcript: TranscriptionResponse, question: string): string => {
+  const asked = new Set(words(question).filter(word => word.length > 3));
+  const matches = transcript.segments
+    .map((segment, i) => ({ segment, number: i + 1, score: words(segment.content).filter(word => asked.has(word)).length }))
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 2);
+  if (matches.length === 0) return 'The transcript does not seem to cover that.';
+  return matches.map(({ segment, number }) => `${segment.speaker} said: "${segment.content}" [${number}]`).join(' ');
+};
+
+/**
+ * Offline backend that always returns the same fixture transcript. Useful for
+ * working on the UI and exports without network access or an API key.
+ */
+export const mockProvider: TranscriptionProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  requiresApiKey: false,
+  transcribe: async (_audio, options = {}) => {
+    options.onProgress?.({ completed: 0, total: 1 });
+    await new Promise(resolve => setTimeout(resolve, SIMULATED_LATENCY_MS));
+    options.signal?.throwIfAborted();
+    options.onProgress?.({ completed: 1, total: 1 });
+    // Hand out a copy so callers can mutate the result freely.
+    const transcript = copyFixture();
+    if (options.request?.fields.includes('words')) transcript.segments = transcript.segments.map(withWordTimings);
+    return transcript;
+  },
+  // Plays the fixture back in real time: each window gets the fixture
+  // segments that fall inside it, relative to the window start.
+  createLiveTransport: () => ({
+    transcribeWindow: async (window) => {
+      await new Promise(resolve => setTimeout(resolve, SIMULATED_LATENCY_MS));
+      const segments = copyFixture().segments
+        .filter(segment => segment.startSec >= window.start && segment.startSec < window.end)
+        .map(segment => {
+          const startSec = segment.startSec - window.start;
+          const endSec = segment.endSec - window.start;
+          return { ...segment, startSec, endSec, timestamp: formatTimestampRange(startSec, endSec) };
+        });
+      return { summary: '', segments };
+    },
+  }),
+  analyzeTranscript: async (transcript, options = {}) => {
+    await new Promise(resolve => setTimeout(resolve, SIMULATED_LATENCY_MS));
+    options.signal?.throwIfAborted();
+    return analyzeFixture(transcript);
+  },
+  askAboutTranscript: async (transcript, _history, question, options = {}) => {
+    await new Promise(resolve => setTimeout(resolve, SIMULATED_LATENCY_MS));
+    options.signal?.throwIfAborted();
+    return answerFromFixture(transcript, question);
+  },
+};
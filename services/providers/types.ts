@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AudioData, ChatMessage, PiiMatch, TranscriptAnalysis, TranscriptionProgress, TranscriptionRequest, TranscriptionResponse } from '../../types';
+import { LiveTransport } from '../liveTranscription';
+
+export interface TranscriptionOptions {
+  /** Backend-specific model id; ignored by backends without a model choice. */
+  model?: string;
+  /** Model sampling temperature; unset uses the model's default. */
+  temperature?: number;
+  /** Translation, speaker, vocabulary and style choices. */
+  request?: TranscriptionRequest;
+  /** Replaces the transcription instructions built from `request`. */
+  prompt?: string;
+  onProgress?: (progress: TranscriptionProgress) => void;
+  /** Stops the request early; the promise then rejects. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A speech-to-text backend. Every backend takes the same input and returns
+ * the same response shape so the UI and export code never depend on one.
+ */
+export interface TranscriptionProvider {
+  id: string;
+  label: string;
+  /** Whether the backend needs network access and an API key. */
+  requiresApiKey: boolean;
+  /** Models to choose from, default first; backends without a choice leave it out. */
+  models?: { id: string; label: string }[];
+  transcribe: (audio: AudioData, options?: TranscriptionOptions) => Promise<TranscriptionResponse>;
+  /** Transcribes windows of a recording in progress; backends without it have no live mode. */
+  createLiveTransport?: (options?: TranscriptionOptions) => LiveTransport;
+  /** Derives action items, decisions, chapters and tags; backends without it offer no analysis. */
+  analyzeTranscript?: (transcript: TranscriptionResponse, options?: TranscriptionOptions) => Promise<TranscriptAnalysis>;
+  /** Answers a question about the transcript, citing segment numbers as [n]. */
+  askAboutTranscript?: (
+    transcript: TranscriptionResponse,
+    history: ChatMessage[],
+    question: string,
+    options?: TranscriptionOptions
+  ) => Promise<string>;
+  /** Finds personal data in the transcript; backends without it leave detection to the local patterns. */
+  detectPii?: (transcript: TranscriptionResponse, options?: TranscriptionOptions) => Promise<PiiMatch[]>;
+}
+
+/** Follow-up analysis bound to one provider and its settings. */
+export interface TranscriptAnalyzer {
+  analyze: (transcript: TranscriptionResponse, signal?: AbortSignal) => Promise<TranscriptAnalysis>;
+  ask: (transcript: TranscriptionResponse, history: ChatMessage[], question: string, signal?: AbortSignal) => Promise<string>;
+  /** Model-assisted personal data detection, when the provider offers it. */
+  detectPii?: (transcript: TranscriptionResponse, signal?: AbortSignal) => Promise<PiiMatch[]>;
+}
@@ -0,0 +1,355 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AudioSpan, PiiKind, PiiMatch, TranscriptionResponse, TranscriptionSegment, WordTiming } from '../types';
+import { createId } from '../utils/id';
+import { decodeToMono, encodeWav, bleepSpans } from './audioProcessing';
+import { mergeSpans } from './audioRegions';
+import { listSpeakers, resolveSpeakerColors } from './speakers';
+
+export const PII_KINDS: { kind: PiiKind; label: string; placeholder: string }[] = [
+  { kind: 'name', label: 'Names', placeholder: '[NAME]' },
+  { kind: 'phone', label: 'Phone numbers', placeholder: '[PHONE]' },
+  { kind: 'email', label: 'Email addresses', placeholder: '[EMAIL]' },
+  { kind: 'card', label: 'Card numbers', placeholder: '[CARD]' },
+  { kind: 'address', label: 'Addresses', placeholder: '[ADDRESS]' },
+];
+
+export const getPiiKind = (kind: PiiKind) => PII_KINDS.find(entry => entry.kind === kind)!;
+
+type PiiField = PiiMatch['field'];
+
+const FIELDS: PiiField[] = ['content', 'translation'];
+
+interface Hit {
+  start: number;
+  end: number;
+  kind: PiiKind;
+}
+
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const CARD = /\b\d(?:[ -]?\d){12,18}\b/g;
+const PHONE = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]\d{2,4}){1,4}\b/g;
+const ADDRESS =
+  /\b\d{1,5}\s+(?:[A-Z][\w'-]*\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Close|Square)\b/g;
+// Names are only guessed from how people introduce or address each other.
+const NAME_CUE = /\b(?:my name is|name's|this is|I am|I'm|speaking with|talking to|Mr\.?|Mrs\.?|Ms\.?|Dr\.?)\s+([A-Za-z][\w'’-]*(?:\s+[A-Za-z][\w'’-]*)?)/gi;
+// Default labels such as "Speaker 1" name nobody.
+const GENERIC_SPEAKER = /^speaker\s*\d+$/i;
+
+// Card numbers carry a Luhn check digit, which rules out most other long numbers.
+const passesLuhn = (digits: string) => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) digit = digit * 2 > 9 ? digit * 2 - 9 : digit * 2;
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const digitCount = (text: string) => text.replace(/\D/g, '').length;
+
+const findAll = (text: string, pattern: RegExp, kind: PiiKind, accept: (match: string) => boolean = () => true): Hit[] =>
+  Array.from(text.matchAll(pattern))
+    .filter(match => accept(match[0]))
+    .map(match => ({ start: match.index!, end: match.index! + match[0].length, kind }));
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findIntroducedNames = (text: string): Hit[] =>
+  Array.from(text.matchAll(NAME_CUE)).flatMap((match): Hit[] => {
+    // Keep the capitalised words after the cue; "I am worried" names nobody.
+    const words = match[1].split(/\s+/);
+    const firstLower = words.findIndex(word => !/^[A-Z]/.test(word));
+    const kept = firstLower === -1 ? words : words.slice(0, firstLower);
+    if (kept.length === 0) return [];
+    const start = match.index! + match[0].length - match[1].length;
+    return [{ start, end: start + kept.join(' ').length, kind: 'name' }];
+  });
+
+const findNames = (text: string, knownNames: string[]): Hit[] => [
+  ...findIntroducedNames(text),
+  ...knownNames.flatMap(name => findAll(text, new RegExp(`\\b${escapeRegExp(name)}\\b`, 'g'), 'name')),
+];
+
+/**
+ * Speaker labels that look like real names and names someone introduced
+ * anywhere in the call, plus their first names, so later mentions and
+ * translations are caught too.
+ */
+const knownNames = (response: TranscriptionResponse): string[] => {
+  const introduced = response.segments.flatMap(segment =>
+    FIELDS.flatMap(field => {
+      const text = segment[field] ?? '';
+      return findIntroducedNames(text).map(hit => text.slice(hit.start, hit.end));
+    })
+  );
+  const speakers = listSpeakers(response).filter(name => !GENERIC_SPEAKER.test(name.trim()));
+  const names = [...speakers, ...introduced].map(name => name.trim());
+  const firstNames = names.map(name => name.split(/\s+/)[0]).filter(name => name.length > 1);
+  return Array.from(new Set([...names, ...firstNames]));
+};
+
+/** Keeps the longest of any hits that overlap; earlier kinds win ties. */
+const dropOverlaps = (hits: Hit[]): Hit[] => {
+  const kept: Hit[] = [];
+  for (const hit of [...hits].sort((a, b) => b.end - b.start - (a.end - a.start))) {
+    if (!kept.some(other => other.start < hit.end && other.end > hit.start)) kept.push(hit);
+  }
+  return kept.sort((a, b) => a.start - b.start);
+};
+
+const detectInText = (text: string, names: string[]): Hit[] =>
+  dropOverlaps([
+    ...findAll(text, EMAIL, 'email'),
+    ...findAll(text, CARD, 'card', match => passesLuhn(match.replace(/\D/g, ''))),
+    ...findAll(text, ADDRESS, 'address'),
+    ...findAll(text, PHONE, 'phone', match => match.startsWith('+') ? digitCount(match) >= 7 : digitCount(match) >= 9 && digitCount(match) <= 15),
+    ...findNames(text, names),
+  ]);
+
+const toMatch = (segmentIndex: number, field: PiiField, text: string, hit: Hit, source: PiiMatch['source']): PiiMatch => ({
+  id: createId(),
+  segmentIndex,
+  field,
+  start: hit.start,
+  end: hit.end,
+  text: text.slice(hit.start, hit.end),
+  kind: hit.kind,
+  source,
+  status: 'pending',
+});
+
+/**
+ * Finds emails, card numbers, addresses, phone numbers and names in every
+ * segment's text and translation with local patterns. Nothing leaves the
+ * browser; the model pass can add what the patterns miss.
+ */
+export const detectPii = (response: TranscriptionResponse): PiiMatch[] => {
+  const names = knownNames(response);
+  return response.segments.flatMap((segment, segmentIndex) =>
+    FIELDS.flatMap(field => {
+      const text = segment[field] ?? '';
+      return detectInText(text, names).map(hit => toMatch(segmentIndex, field, text, hit, 'pattern'));
+    })
+  );
+};
+
+const overlaps = (a: PiiMatch, b: PiiMatch) =>
+  a.segmentIndex === b.segmentIndex && a.field === b.field && a.start < b.end && a.end > b.start;
+
+const dropDuplicates = (matches: PiiMatch[]): PiiMatch[] =>
+  matches.filter((match, i) => !matches.slice(0, i).some(other => overlaps(other, match)));
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Turns a model reply of `{ items: [{ segment, text, kind }] }`, with 1-based
+ * segment numbers, into matches. Every place the quoted text occurs in that
+ * segment's text or translation is flagged; quotes that do not occur are
+ * dropped.
+ */
+export const parsePiiReply = (raw: unknown, response: TranscriptionResponse): PiiMatch[] => {
+  const items = isRecord(raw) && Array.isArray(raw.items) ? raw.items.filter(isRecord) : [];
+  return dropDuplicates(items.flatMap(item => {
+    const segmentIndex = (typeof item.segment === 'number' ? item.segment : parseInt(String(item.segment), 10)) - 1;
+    const segment = response.segments[segmentIndex];
+    const quote = typeof item.text === 'string' ? item.text.trim() : '';
+    const kind = PII_KINDS.find(entry => entry.kind === item.kind)?.kind;
+    if (!segment || !quote || !kind) return [];
+    return FIELDS.flatMap(field => {
+      const text = segment[field] ?? '';
+      return findAll(text, new RegExp(escapeRegExp(quote), 'g'), kind).map(hit => toMatch(segmentIndex, field, text, hit, 'model'));
+    });
+  }));
+};
+
+/**
+ * Whether a match still points at the text it was found in; edits to the
+ * segment can move or remove it.
+ */
+export const isCurrentMatch = (match: PiiMatch, response: TranscriptionResponse): boolean => {
+  const text = response.segments[match.segmentIndex]?.[match.field];
+  return typeof text === 'string' && text.slice(match.start, match.end) === match.text;
+};
+
+/**
+ * Adds newly found hits to a review. Existing hits that still line up keep
+ * their verdicts; new hits overlapping one already listed are skipped, as
+ * are hits found in text that has been edited since.
+ */
+export const mergeMatches = (response: TranscriptionResponse, existing: PiiMatch[], found: PiiMatch[]): PiiMatch[] => {
+  const merged = existing.filter(match => isCurrentMatch(match, response));
+  for (const match of found) {
+    if (isCurrentMatch(match, response) && !merged.some(other => overlaps(other, match))) merged.push(match);
+  }
+  return merged.sort((a, b) =>
+    a.segmentIndex - b.segmentIndex || FIELDS.indexOf(a.field) - FIELDS.indexOf(b.field) || a.start - b.start
+  );
+};
+
+const acceptedMatches = (response: TranscriptionResponse): PiiMatch[] =>
+  (response.redaction?.matches ?? []).filter(match => match.status === 'accepted' && isCurrentMatch(match, response));
+
+const redactText = (text: string, matches: PiiMatch[]): string =>
+  [...matches]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, match) => result.slice(0, match.start) + getPiiKind(match.kind).placeholder + result.slice(match.end), text);
+
+/**
+ * Collapses the words covered by each redaction into one placeholder word
+ * spanning their times. Returns undefined when the words cannot be matched
+ * up with the text.
+ */
+const redactWords = (content: string, redacted: string, words: WordTiming[], matches: PiiMatch[]): WordTiming[] | undefined => {
+  const tokens = Array.from(content.matchAll(/\S+/g));
+  if (tokens.length !== words.length) return undefined;
+
+  const kept: WordTiming[] = [];
+  let lastMatch: PiiMatch | undefined;
+  tokens.forEach((token, i) => {
+    const start = token.index!;
+    const match = matches.find(m => m.start < start + token[0].length && m.end > start);
+    if (match && match === lastMatch) {
+      kept[kept.length - 1] = { ...kept[kept.length - 1], endSec: words[i].endSec };
+    } else {
+      kept.push(match ? { text: '', startSec: words[i].startSec, endSec: words[i].endSec } : words[i]);
+    }
+    lastMatch = match;
+  });
+
+  const texts = redacted.match(/\S+/g) ?? [];
+  return texts.length === kept.length ? kept.map((word, i) => ({ ...word, text: texts[i] })) : undefined;
+};
+
+// Matches a value as a whole: "Ann" must not match inside "Annual". Lookarounds
+// rather than \b so values starting or ending in punctuation, like "+44 20…", work too.
+const valuePattern = (value: string) => new RegExp(`(?<!\\w)${escapeRegExp(value)}(?!\\w)`, 'g');
+
+/** Replaces each redacted value wherever it appears as a whole, longest first. */
+const replaceValues = (text: string, matches: PiiMatch[]): string =>
+  [...matches]
+    .sort((a, b) => b.text.length - a.text.length)
+    .reduce((result, match) => result.replace(valuePattern(match.text), getPiiKind(match.kind).placeholder), text);
+
+/**
+ * Gives every speaker whose label contains a redacted value a neutral label
+ * such as "Speaker 2", numbered in order of appearance and skipping labels
+ * already in use. Speakers keep their own labels otherwise.
+ */
+const neutralSpeakerLabels = (response: TranscriptionResponse, matches: PiiMatch[]): Map<string, string> => {
+  const speakers = listSpeakers(response);
+  const used = new Set(speakers);
+  const labels = new Map<string, string>();
+  let next = 1;
+  for (const speaker of speakers) {
+    if (!matches.some(match => valuePattern(match.text).test(speaker))) continue;
+    while (used.has(`Speaker ${next}`)) next++;
+    labels.set(speaker, `Speaker ${next}`);
+    used.add(`Speaker ${next}`);
+  }
+  return labels;
+};
+
+/**
+ * Returns a copy of the transcript with every accepted hit replaced by a
+ * placeholder such as [PHONE]. The same values are also replaced in the
+ * summary and analysis, speakers labelled with them are renamed to neutral
+ * labels, and the review itself is left out so the copy holds no trace of
+ * what was removed.
+ */
+export const redactTranscript = (response: TranscriptionResponse): TranscriptionResponse => {
+  const accepted = acceptedMatches(response);
+  const { redaction: _redaction, ...rest } = response;
+  if (accepted.length === 0) return rest;
+
+  const speakerLabels = neutralSpeakerLabels(response, accepted);
+  const relabel = (speaker: string) => speakerLabels.get(speaker) ?? speaker;
+  const scrub = (text: string) => replaceValues(text, accepted);
+
+  const segments = response.segments.map((segment, index): TranscriptionSegment => {
+    // Validator warnings may quote the original speaker label.
+    const base = { ...segment, speaker: relabel(segment.speaker), ...(segment.warnings && { warnings: segment.warnings.map(scrub) }) };
+    const own = accepted.filter(match => match.segmentIndex === index);
+    if (own.length === 0) return base;
+    const inContent = own.filter(match => match.field === 'content');
+    const inTranslation = own.filter(match => match.field === 'translation');
+    const content = redactText(segment.content, inContent);
+    const redacted: TranscriptionSegment = { ...base, content };
+    if (segment.translation) redacted.translation = redactText(segment.translation, inTranslation);
+    if (segment.words) {
+      const words = inContent.length > 0 ? redactWords(segment.content, content, segment.words, inContent) : segment.words;
+      if (words) redacted.words = words;
+      else delete redacted.words;
+    }
+    return redacted;
+  });
+
+  const speakerColors = Object.fromEntries(
+    Object.entries(resolveSpeakerColors(response)).map(([speaker, color]) => [relabel(speaker), color])
+  );
+  const { analysis } = response;
+  return {
+    ...rest,
+    summary: scrub(response.summary),
+    segments,
+    ...(response.warnings && { warnings: response.warnings.map(scrub) }),
+    speakerColors,
+    ...(analysis && {
+      analysis: {
+        ...analysis,
+        actionItems: analysis.actionItems.map(item => ({
+          ...item,
+          task: scrub(item.task),
+          ...(item.owner && { owner: speakerLabels.get(item.owner) ?? scrub(item.owner) }),
+        })),
+        decisions: analysis.decisions.map(decision => ({ ...decision, text: scrub(decision.text) })),
+        chapters: analysis.chapters.map(chapter => ({ ...chapter, title: scrub(chapter.title) })),
+        tags: analysis.tags.map(scrub),
+      },
+    }),
+  };
+};
+
+export const hasAcceptedRedactions = (response: TranscriptionResponse): boolean => acceptedMatches(response).length > 0;
+
+// Word times are approximate; a little padding keeps the edges of a word from slipping through.
+const BLEEP_PADDING_SEC = 0.15;
+// Enough for speech and keeps an hour of audio at a manageable size in memory.
+const BLEEP_SAMPLE_RATE = 22050;
+
+/**
+ * Where to bleep the audio for the accepted hits: the words a hit covers
+ * when word timings line up, otherwise its whole segment. Hits in
+ * translations are skipped because the audio only holds the original.
+ */
+export const redactionSpans = (response: TranscriptionResponse): AudioSpan[] =>
+  mergeSpans(
+    acceptedMatches(response)
+      .filter(match => match.field === 'content')
+      .map(match => {
+        const segment = response.segments[match.segmentIndex];
+        const tokens = Array.from(segment.content.matchAll(/\S+/g));
+        const words = segment.words?.length === tokens.length
+          ? segment.words.filter((_, i) => tokens[i].index! < match.end && tokens[i].index! + tokens[i][0].length > match.start)
+          : [];
+        const span = words.length > 0
+          ? { startSec: words[0].startSec, endSec: words[words.length - 1].endSec }
+          : { startSec: segment.startSec, endSec: segment.endSec };
+        return { startSec: Math.max(0, span.startSec - BLEEP_PADDING_SEC), endSec: span.endSec + BLEEP_PADDING_SEC };
+      })
+  );
+
+/**
+ * Renders a mono WAV copy of the recording with the given stretches
+ * replaced by a tone.
+ */
+export const bleepAudio = async (blob: Blob, spans: AudioSpan[]): Promise<Blob> => {
+  const { samples, sampleRate } = await decodeToMono(blob, BLEEP_SAMPLE_RATE);
+  return encodeWav(bleepSpans(samples, sampleRate, spans), sampleRate);
+};
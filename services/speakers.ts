@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { TranscriptionResponse } from '../types';
+import { segmentDuration } from '../utils/timeline';
+
+/** Colours that stay readable on both the light and dark theme. */
+export const SPEAKER_PALETTE = [
+  '#6366f1', // indigo
+  '#0ea5e9', // sky
+  '#10b981', // emerald
+  '#f59e0b', // amber
+  '#ec4899', // pink
+  '#8b5cf6', // violet
+  '#ef4444', // red
+  '#14b8a6', // teal
+  '#84cc16', // lime
+  '#f97316', // orange
+];
+
+export interface SpeakerStats {
+  name: string;
+  segmentCount: number;
+  talkTimeSec: number;
+  color: string;
+}
+
+/**
+ * Lists speakers in order of first appearance.
+ */
+export const listSpeakers = (response: TranscriptionResponse): string[] =>
+  Array.from(new Set(response.segments.map(segment => segment.speaker)));
+
+/**
+ * Returns a colour for every speaker. Colours already stored on the response
+ * are kept; new speakers get the first palette entry not yet in use, so a
+ * speaker's colour does not change as others are renamed or merged.
+ */
+export const resolveSpeakerColors = (response: TranscriptionResponse): Record<string, string> => {
+  const colors: Record<string, string> = {};
+  const speakers = listSpeakers(response);
+  for (const name of speakers) {
+    const stored = response.speakerColors?.[name];
+    if (stored) colors[name] = stored;
+  }
+
+  const used = new Set(Object.values(colors));
+  let next = 0;
+  for (const name of speakers) {
+    if (colors[name]) continue;
+    const free = SPEAKER_PALETTE.find(color => !used.has(color));
+    // With more speakers than colours, reuse the palette in order.
+    const color = free ?? SPEAKER_PALETTE[next++ % SPEAKER_PALETTE.length];
+    colors[name] = color;
+    used.add(color);
+  }
+  return colors;
+};
+
+export const getSpeakerStats = (response: TranscriptionResponse): SpeakerStats[] => {
+  const colors = resolveSpeakerColors(response);
+  const stats = new Map<string, SpeakerStats>();
+  for (const segment of response.segments) {
+    const entry = stats.get(segment.speaker) ?? {
+      name: segment.speaker,
+      segmentCount: 0,
+      talkTimeSec: 0,
+      color: colors[segment.speaker],
+    };
+    entry.segmentCount++;
+    entry.talkTimeSec += segmentDuration(segment);
+    stats.set(segment.speaker, entry);
+  }
+  return Array.from(stats.values());
+};
+
+/**
+ * Pins the current colours onto the response so they survive edits.
+ */
+const withColors = (response: TranscriptionResponse, colors: Record<string, string>): TranscriptionResponse => {
+  const speakers = new Set(listSpeakers(response));
+  const speakerColors: Record<string, string> = {};
+  for (const [name, color] of Object.entries(colors)) {
+    if (speakers.has(name)) speakerColors[name] = color;
+  }
+  return { ...response, speakerColors };
+};
+
+export const pinSpeakerColors = (response: TranscriptionResponse): TranscriptionResponse =>
+  withColors(response, resolveSpeakerColors(response));
+
+/**
+ * Relabels every segment of one or more speakers as `target`. Renaming onto
+ * an existing speaker merges the two; the target keeps its colour.
+ */
+export const mergeSpeakers = (response: TranscriptionResponse, sources: string[], target: string): TranscriptionResponse => {
+  const name = target.trim();
+  if (!name) return response;
+
+  const colors = resolveSpeakerColors(response);
+  const targetExists = listSpeakers(response).includes(name);
+  if (!targetExists && sources.length > 0) colors[name] = colors[sources[0]];
+
+  const segments = response.segments.map(segment =>
+    sources.includes(segment.speaker) ? { ...segment, speaker: name } : segment
+  );
+  return withColors({ ...response, segments }, colors);
+};
+
+export const renameSpeaker = (response: TranscriptionResponse, from: string, to: string): TranscriptionResponse =>
+  from === to.trim() ? response : mergeSpeakers(response, [from], to);
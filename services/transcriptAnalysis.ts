@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ActionItem, Chapter, Decision, TranscriptAnalysis, TranscriptionResponse } from '../types';
+import { formatClock } from '../utils/time';
+
+/**
+ * Renders the transcript as numbered lines, e.g. "[3] 01:05 Alice: ...".
+ * Analysis replies refer back to segments by these numbers.
+ */
+export const formatTranscriptForPrompt = (response: TranscriptionResponse): string =>
+  response.segments
+    .map((segment, i) => `[${i + 1}] ${formatClock(segment.startSec)} ${segment.speaker}: ${segment.content}`)
+    .join('\n');
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const asList = (value: unknown): RawRecord[] => (Array.isArray(value) ? value.filter(isRecord) : []);
+
+/** Turns a 1-based segment number from the reply into a 0-based index, or -1. */
+const toIndex = (value: unknown, response: TranscriptionResponse): number => {
+  const n = typeof value === 'number' ? value : parseInt(asText(value), 10);
+  return Number.isInteger(n) && n >= 1 && n <= response.segments.length ? n - 1 : -1;
+};
+
+const startOf = (value: unknown, response: TranscriptionResponse): number | undefined => {
+  const index = toIndex(value, response);
+  return index >= 0 ? response.segments[index].startSec : undefined;
+};
+
+/**
+ * Checks an analysis reply against the transcript it describes, dropping
+ * entries without text and segment numbers that do not exist.
+ */
+export const parseAnalysis = (raw: unknown, response: TranscriptionResponse): TranscriptAnalysis => {
+  const data = isRecord(raw) ? raw : {};
+
+  const actionItems = asList(data.actionItems).flatMap((item): ActionItem[] => {
+    const task = asText(item.task);
+    if (!task) return [];
+    const actionItem: ActionItem = { task };
+    const owner = asText(item.owner);
+    const due = asText(item.due);
+    const startSec = startOf(item.segment, response);
+    if (owner) actionItem.owner = owner;
+    if (due) actionItem.due = due;
+    if (startSec !== undefined) actionItem.startSec = startSec;
+    return [actionItem];
+  });
+
+  const decisions = asList(data.decisions).flatMap((item): Decision[] => {
+    const text = asText(item.text);
+    if (!text) return [];
+    const startSec = startOf(item.segment, response);
+    return [startSec !== undefined ? { text, startSec } : { text }];
+  });
+
+  const chapters = asList(data.chapters)
+    .flatMap((item): Chapter[] => {
+      const title = asText(item.title);
+      const first = toIndex(item.startSegment, response);
+      if (!title || first < 0) return [];
+      const last = Math.max(first, toIndex(item.endSegment, response));
+      return [{ title, startSec: response.segments[first].startSec, endSec: response.segments[last].endSec }];
+    })
+    .sort((a, b) => a.startSec - b.startSec);
+
+  const tags: string[] = [];
+  for (const tag of (Array.isArray(data.tags) ? data.tags : []).map(asText)) {
+    if (tag && !tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+  }
+
+  return { actionItems, decisions, chapters, tags, createdAt: Date.now() };
+};
+
+export type AnswerPart =
+  | { kind: 'text'; text: string }
+  | { kind: 'citation'; segmentIndex: number; startSec: number };
+
+/**
+ * Splits an answer into text and segment citations written as "[3]" or
+ * "[3, 7]". Numbers that match no segment are left as plain text.
+ */
+export const parseCitations = (answer: string, response: TranscriptionResponse): AnswerPart[] => {
+  const parts: AnswerPart[] = [];
+  const pattern = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+  let last = 0;
+  for (const match of answer.matchAll(pattern)) {
+    const indices = match[1].split(',').map(n => toIndex(n.trim(), response));
+    if (indices.some(index => index < 0)) continue;
+    if (match.index! > last) parts.push({ kind: 'text', text: answer.slice(last, match.index) });
+    indices.forEach(index => parts.push({ kind: 'citation', segmentIndex: index, startSec: response.segments[index].startSec }));
+    last = match.index! + match[0].length;
+  }
+  if (last < answer.length) parts.push({ kind: 'text', text: answer.slice(last) });
+  return parts;
+};
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AudioSpan, TranscriptionResponse, TranscriptionSegment } from '../types';
+import { formatTimestampRange, roundMs } from '../utils/time';
+import { toSourceTime, toSourceEndTime } from './audioRegions';
+import { DEFAULT_EMOTION } from './emotions';
+import { mapWordTimes, splitWordsAt } from './wordTimings';
+
+/**
+ * Pure edit operations on a transcript. Each returns a new response and
+ * leaves the input untouched so it can be kept in the undo history.
+ */
+
+const withTimes = (segment: TranscriptionSegment, startSec: number, endSec: number): TranscriptionSegment => ({
+  ...segment,
+  startSec: roundMs(startSec),
+  endSec: roundMs(endSec),
+  timestamp: formatTimestampRange(startSec, endSec),
+});
+
+const replaceSegments = (
+  response: TranscriptionResponse,
+  index: number,
+  deleteCount: number,
+  ...inserted: TranscriptionSegment[]
+): TranscriptionResponse => {
+  const segments = [...response.segments];
+  segments.splice(index, deleteCount, ...inserted);
+  return { ...response, segments };
+};
+
+export type SegmentPatch = Partial<Pick<TranscriptionSegment, 'speaker' | 'content' | 'translation' | 'emotion' | 'emotionConfidence' | 'sentiment' | 'startSec' | 'endSec'>>;
+
+export const updateSegment = (response: TranscriptionResponse, index: number, patch: SegmentPatch): TranscriptionResponse => {
+  const current = response.segments[index];
+  if (!current) return response;
+  // Hand edits supersede whatever the validator flagged.
+  const { warnings: _warnings, ...rest } = current;
+  let next: TranscriptionSegment = { ...rest, ...patch };
+  if (patch.startSec !== undefined || patch.endSec !== undefined) {
+    next = withTimes(next, next.startSec, Math.max(next.startSec, next.endSec));
+  }
+  // Word timings no longer match edited text.
+  if (patch.content !== undefined && patch.content !== current.content) delete next.words;
+  if (patch.translation !== undefined && !patch.translation) delete next.translation;
+  return replaceSegments(response, index, 1, next);
+};
+
+/**
+ * Splits a segment at a character offset. The time range is divided in
+ * proportion to the text on each side of the cut.
+ */
+export const splitSegment = (response: TranscriptionResponse, index: number, offset: number): TranscriptionResponse => {
+  const segment = response.segments[index];
+  if (!segment) return response;
+
+  const before = segment.content.slice(0, offset).trim();
+  const after = segment.content.slice(offset).trim();
+  if (!before || !after) return response;
+
+  const ratio = offset / segment.content.length;
+  const cut = segment.startSec + (segment.endSec - segment.startSec) * ratio;
+  const { warnings: _warnings, ...rest } = segment;
+  const { translation: _translation, ...untranslated } = rest;
+
+  // The translation cannot be split reliably, so it stays with the first half.
+  const first = withTimes({ ...rest, content: before }, segment.startSec, cut);
+  const second = withTimes({ ...untranslated, content: after }, cut, segment.endSec);
+  if (segment.words) {
+    // With word timings the cut falls between the words themselves.
+    const [firstWords, secondWords] = splitWordsAt(segment.content, segment.words, offset);
+    if (firstWords.length > 0 && secondWords.length > 0) {
+      return replaceSegments(
+        response, index, 1,
+        withTimes({ ...first, words: firstWords }, segment.startSec, secondWords[0].startSec),
+        withTimes({ ...second, words: secondWords }, secondWords[0].startSec, segment.endSec)
+      );
+    }
+    delete first.words;
+    delete second.words;
+  }
+  return replaceSegments(response, index, 1, first, second);
+};
+
+/**
+ * Merges a segment with the one after it, keeping the first segment's
+ * speaker, language and emotion.
+ */
+export const mergeWithNext = (response: TranscriptionResponse, index: number): TranscriptionResponse => {
+  const segment = response.segments[index];
+  const next = response.segments[index + 1];
+  if (!segment || !next) return response;
+
+  const { warnings: _warnings, ...rest } = segment;
+  const translation = [segment.translation, next.translation].filter(Boolean).join(' ');
+  const merged = withTimes(
+    { ...rest, content: `${segment.content} ${next.content}`.trim(), translation: translation || undefined },
+    Math.min(segment.startSec, next.startSec),
+    Math.max(segment.endSec, next.endSec)
+  );
+  if (!merged.translation) delete merged.translation;
+  if (segment.words && next.words) merged.words = [...segment.words, ...next.words];
+  else delete merged.words;
+  return replaceSegments(response, index, 2, merged);
+};
+
+export const deleteSegment = (response: TranscriptionResponse, index: number): TranscriptionResponse =>
+  response.segments[index] ? replaceSegments(response, index, 1) : response;
+
+/**
+ * Inserts an empty segment after `index` (or at the start for -1), placed
+ * in the gap after the previous segment.
+ */
+export const insertSegment = (response: TranscriptionResponse, index: number): TranscriptionResponse => {
+  const previous = response.segments[index];
+  const following = response.segments[index + 1];
+  const start = previous ? previous.endSec : 0;
+  const end = following ? Math.max(start, following.startSec) : start + 5;
+
+  const segment = withTimes(
+    {
+      speaker: previous?.speaker ?? following?.speaker ?? 'Speaker 1',
+      timestamp: '',
+      startSec: start,
+      endSec: end,
+      content: '',
+      language: previous?.language ?? following?.language ?? 'Unknown',
+      emotion: DEFAULT_EMOTION,
+    },
+    start,
+    end
+  );
+  if (previous?.language_code) segment.language_code = previous.language_code;
+  return replaceSegments(response, index + 1, 0, segment);
+};
+
+/**
+ * Puts segment times from a transcript of cut-down audio back on the
+ * original file's timeline. `spans` are the parts the audio was made from.
+ */
+export const remapTimeline = (response: TranscriptionResponse, spans: AudioSpan[]): TranscriptionResponse => ({
+  ...response,
+  segments: response.segments.map(segment =>
+    mapWordTimes(
+      withTimes(segment, toSourceTime(spans, segment.startSec), toSourceEndTime(spans, segment.endSec)),
+      sec => toSourceTime(spans, sec),
+      sec => toSourceEndTime(spans, sec)
+    )
+  ),
+});
@@ -0,0 +1,246 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { TranscriptionResponse, TranscriptionSegment } from '../types';
+import { formatClock, formatTimestampRange } from '../utils/time';
+import { resolveSpeakerColors } from './speakers';
+import { toWordCues } from './wordTimings';
+import { redactTranscript } from './redaction';
+
+export type ExportFormat = 'srt' | 'vtt' | 'txt' | 'md' | 'html' | 'json';
+
+export interface ExportOptions {
+  includeEmotion: boolean;
+  includeLanguage: boolean;
+  /** Join consecutive segments from the same speaker into one block. */
+  mergeSpeakerTurns: boolean;
+  /** For subtitle formats: emit the translation track instead of the original. */
+  translationTrack: boolean;
+  /** For subtitle formats: break segments into short cues along their word timings. */
+  wordTimedCues: boolean;
+  /** Replace the personal data a reviewer accepted with placeholders, in every format. */
+  redact: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  includeEmotion: false,
+  includeLanguage: false,
+  mergeSpeakerTurns: false,
+  translationTrack: false,
+  wordTimedCues: false,
+  redact: false,
+};
+
+export interface ExportedFile {
+  filename: string;
+  mimeType: string;
+  content: string | Blob;
+}
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'srt', label: 'SubRip subtitles (.srt)', extension: 'srt', mimeType: 'application/x-subrip' },
+  { format: 'vtt', label: 'WebVTT subtitles (.vtt)', extension: 'vtt', mimeType: 'text/vtt' },
+  { format: 'txt', label: 'Plain text (.txt)', extension: 'txt', mimeType: 'text/plain' },
+  { format: 'md', label: 'Markdown (.md)', extension: 'md', mimeType: 'text/markdown' },
+  { format: 'html', label: 'Word document (.doc)', extension: 'doc', mimeType: 'application/msword' },
+  { format: 'json', label: 'EchoScript JSON (.json)', extension: 'json', mimeType: 'application/json' },
+];
+
+/** Identifies EchoScript JSON files so they can be imported again. */
+export const ECHOSCRIPT_JSON_FORMAT = 'echoscript-transcript';
+export const ECHOSCRIPT_JSON_VERSION = 1;
+
+// Subtitle players skip cues without a duration.
+const MIN_CUE_SEC = 0.5;
+
+/**
+ * Joins runs of segments by the same speaker. Emotion and language are kept
+ * from the first segment of each run.
+ */
+export const mergeSpeakerTurns = (segments: TranscriptionSegment[]): TranscriptionSegment[] =>
+  segments.reduce<TranscriptionSegment[]>((merged, segment) => {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.speaker === segment.speaker) {
+      const translation = [previous.translation, segment.translation].filter(Boolean).join(' ');
+      merged[merged.length - 1] = {
+        ...previous,
+        endSec: Math.max(previous.endSec, segment.endSec),
+        timestamp: formatTimestampRange(previous.startSec, Math.max(previous.endSec, segment.endSec)),
+        content: `${previous.content} ${segment.content}`,
+        translation: translation || undefined,
+        words: previous.words && segment.words ? [...previous.words, ...segment.words] : undefined,
+      };
+    } else {
+      merged.push({ ...segment });
+    }
+    return merged;
+  }, []);
+
+const describe = (segment: TranscriptionSegment, options: ExportOptions): string => {
+  const tags: string[] = [];
+  if (options.includeLanguage && segment.language) tags.push(segment.language);
+  if (options.includeEmotion && segment.emotion) tags.push(segment.emotion);
+  return tags.length > 0 ? ` [${tags.join(', ')}]` : '';
+};
+
+const cueText = (segment: TranscriptionSegment, options: ExportOptions): string =>
+  options.translationTrack ? segment.translation || segment.content : segment.content;
+
+const usesWordCues = (options: ExportOptions) => options.wordTimedCues && !options.translationTrack;
+
+const cueEnd = (segment: TranscriptionSegment) => Math.max(segment.endSec, segment.startSec + MIN_CUE_SEC);
+
+const toSrt = (segments: TranscriptionSegment[], options: ExportOptions): string => {
+  const time = (sec: number) => formatClock(sec, { hours: true, ms: true }).replace('.', ',');
+  return segments
+    .map((segment, i) =>
+      [
+        String(i + 1),
+        `${time(segment.startSec)} --> ${time(cueEnd(segment))}`,
+        `${segment.speaker}${describe(segment, options)}: ${cueText(segment, options)}`,
+      ].join('\n')
+    )
+    .join('\n\n') + '\n';
+};
+
+const toVtt = (segments: TranscriptionSegment[], options: ExportOptions, colors: Record<string, string>): string => {
+  const time = (sec: number) => formatClock(sec, { hours: true, ms: true });
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const style = [
+    'STYLE',
+    ...Object.entries(colors).map(([name, color]) => `::cue(v[voice="${name.replace(/["\\]/g, '\\$&')}"]) { color: ${color}; }`),
+  ].join('\n');
+  // Word-timed cues get inline timestamps so players can highlight each word as it is spoken.
+  const text = (segment: TranscriptionSegment) =>
+    usesWordCues(options) && segment.words
+      ? segment.words.map((word, i) => `${i > 0 ? `<${time(word.startSec)}>` : ''}${escape(word.text)}`).join(' ')
+      : escape(cueText(segment, options));
+  const cues = segments.map((segment, i) =>
+    [
+      String(i + 1),
+      `${time(segment.startSec)} --> ${time(cueEnd(segment))}`,
+      `<v ${escape(segment.speaker)}>${text(segment)}${escape(describe(segment, options))}`,
+    ].join('\n')
+  );
+  return ['WEBVTT', style, ...cues].join('\n\n') + '\n';
+};
+
+const toText = (response: TranscriptionResponse, segments: TranscriptionSegment[], options: ExportOptions): string => {
+  const lines = segments.map(segment => {
+    const translation = segment.translation ? `\n    (${segment.translation})` : '';
+    return `[${formatTimestampRange(segment.startSec, segment.endSec)}] ${segment.speaker}${describe(segment, options)}: ${segment.content}${translation}`;
+  });
+  return [`Summary: ${response.summary}`, '', ...lines].join('\n') + '\n';
+};
+
+const toMarkdown = (response: TranscriptionResponse, segments: TranscriptionSegment[], options: ExportOptions): string => {
+  const blocks = segments.map(segment => {
+    const heading = `**${segment.speaker}** · \`${formatTimestampRange(segment.startSec, segment.endSec)}\`${describe(segment, options)}`;
+    const translation = segment.translation ? `\n\n> ${segment.translation}` : '';
+    return `${heading}\n\n${segment.content}${translation}`;
+  });
+  return ['# Transcript', '', '## Summary', '', response.summary, '', '## Transcript', '', blocks.join('\n\n')].join('\n') + '\n';
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Word opens HTML saved with a .doc extension and the Office namespaces,
+ * which avoids bundling a DOCX writer.
+ */
+const toWordHtml = (response: TranscriptionResponse, segments: TranscriptionSegment[], options: ExportOptions): string => {
+  const colors = resolveSpeakerColors(response);
+  const rows = segments
+    .map(segment => {
+      const translation = segment.translation
+        ? `<p style="color:#555;font-style:italic;margin:2pt 0 0 0">${escapeHtml(segment.translation)}</p>`
+        : '';
+      return `<p style="margin:10pt 0 0 0"><b style="color:${colors[segment.speaker]}">${escapeHtml(segment.speaker)}</b> <span style="color:#777">${formatTimestampRange(segment.startSec, segment.endSec)}${escapeHtml(describe(segment, options))}</span></p>
+<p style="margin:2pt 0 0 0">${escapeHtml(segment.content)}</p>${translation}`;
+    })
+    .join('\n');
+
+  return `<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word" xmlns="http://www.w3.org/TR/REC-html40">
+<head><meta charset="utf-8"><title>Transcript</title></head>
+<body style="font-family:Calibri,Arial,sans-serif;font-size:11pt">
+<h1>Transcript</h1>
+<h2>Summary</h2>
+<p>${escapeHtml(response.summary)}</p>
+<h2>Transcript</h2>
+${rows}
+</body>
+</html>
+`;
+};
+
+const toJson = (response: TranscriptionResponse): string =>
+  JSON.stringify(
+    {
+      format: ECHOSCRIPT_JSON_FORMAT,
+      version: ECHOSCRIPT_JSON_VERSION,
+      exportedAt: new Date().toISOString(),
+      transcript: response,
+    },
+    null,
+    2
+  );
+
+/**
+ * Serializes a transcript. JSON ignores every option but redaction.
+ */
+export const exportTranscript = (
+  response: TranscriptionResponse,
+  format: ExportFormat,
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS,
+  baseName = 'transcript'
+): ExportedFile => {
+  const spec = EXPORT_FORMATS.find(f => f.format === format)!;
+  const source = options.redact ? redactTranscript(response) : response;
+  const merged = options.mergeSpeakerTurns ? mergeSpeakerTurns(source.segments) : source.segments;
+  const segments = usesWordCues(options) && (format === 'srt' || format === 'vtt') ? merged.flatMap(toWordCues) : merged;
+  const suffix = [
+    options.redact ? '.redacted' : '',
+    options.translationTrack && (format === 'srt' || format === 'vtt') ? '.translation' : '',
+  ].join('');
+
+  let content: string;
+  switch (format) {
+    case 'srt':
+      content = toSrt(segments, options);
+      break;
+    case 'vtt':
+      content = toVtt(segments, options, resolveSpeakerColors(source));
+      break;
+    case 'txt':
+      content = toText(source, segments, options);
+      break;
+    case 'md':
+      content = toMarkdown(source, segments, options);
+      break;
+    case 'html':
+      content = toWordHtml(source, segments, options);
+      break;
+    case 'json':
+    default:
+      content = toJson(source);
+      break;
+  }
+
+  return { filename: `${baseName}${suffix}.${spec.extension}`, mimeType: spec.mimeType, content };
+};
+
+export const downloadFile = ({ filename, mimeType, content }: ExportedFile) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start reading the blob only after click() returns.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Emotion, RedactionReview, TranscriptAnalysis, TranscriptionResponse, TranscriptionSegment } from '../types';
+import { parseClock, formatTimestampRange } from '../utils/time';
+import { validateTranscription, TranscriptionValidationError } from './transcriptionValidator';
+import { matchEmotion } from './emotions';
+import { ECHOSCRIPT_JSON_FORMAT } from './transcriptExport';
+
+export interface ImportIssue {
+  /** 1-based line in the source file, when the problem can be located. */
+  line?: number;
+  message: string;
+}
+
+export interface ImportResult {
+  response: TranscriptionResponse;
+  issues: ImportIssue[];
+}
+
+export type ImportFormat = 'srt' | 'vtt' | 'json';
+
+export const IMPORT_ACCEPT = '.srt,.vtt,.json,application/json,text/vtt';
+
+const TIMING_LINE = /^\s*(\S+)\s*-->\s*(\S+)/;
+
+/**
+ * Splits "Speaker 1 [English, Happy]: text" (as written by the SRT exporter)
+ * into its parts. Lines without a recognizable prefix have no speaker.
+ */
+const parseCueText = (text: string): Pick<TranscriptionSegment, 'speaker' | 'content' | 'language' | 'emotion'> => {
+  let speaker = '';
+  let body = text;
+
+  const voice = body.match(/^<v(?:\.[^\s>]+)?\s+([^>]+)>([\s\S]*)$/);
+  const prefix = body.match(/^([^:\n]{1,40}?)(\s*\[[^\]]*\])?:\s+([\s\S]*)$/);
+  if (voice) {
+    speaker = voice[1].trim();
+    body = voice[2];
+  } else if (prefix) {
+    speaker = prefix[1].trim();
+    body = `${prefix[3]}${prefix[2] ?? ''}`;
+  }
+
+  let language = 'Unknown';
+  let emotion: Emotion | undefined;
+  const tags = body.match(/\s*\[([^\]]*)\]\s*$/);
+  if (tags) {
+    body = body.slice(0, tags.index);
+    for (const tag of tags[1].split(',').map(t => t.trim()).filter(Boolean)) {
+      const matched = matchEmotion(tag);
+      if (matched) emotion = matched;
+      else language = tag;
+    }
+  }
+
+  // Strip only subtitle styling tags so literal angle brackets survive.
+  const content = body
+    .replace(/<\/?(?:i|b|u|c|v|lang|ruby|rt|font)(?:[.\s][^>]*)?>|<\d[\d:.]*>/gi, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .trim();
+  return { speaker: speaker || 'Unknown Speaker', content, language, emotion };
+};
+
+/**
+ * Parses SRT and WebVTT cue blocks. The two formats only differ in the
+ * header, cue settings and the decimal separator, which parseClock accepts.
+ */
+const parseCues = (text: string, format: 'srt' | 'vtt'): ImportResult => {
+  const lines = text.replace(/^﻿/, '').split(/\r?\n/);
+  const issues: ImportIssue[] = [];
+  const segments: TranscriptionSegment[] = [];
+
+  let i = 0;
+  if (format === 'vtt') {
+    if (!/^WEBVTT/.test(lines[0] ?? '')) issues.push({ line: 1, message: 'Missing "WEBVTT" header.' });
+    // Skip the header block.
+    while (i < lines.length && lines[i].trim() !== '') i++;
+  }
+
+  while (i < lines.length) {
+    while (i < lines.length && lines[i].trim() === '') i++;
+    if (i >= lines.length) break;
+
+    const blockStart = i;
+    const block: string[] = [];
+    while (i < lines.length && lines[i].trim() !== '') block.push(lines[i++]);
+
+    // NOTE, STYLE and REGION blocks carry no cues.
+    if (format === 'vtt' && /^(NOTE|STYLE|REGION)\b/.test(block[0])) continue;
+
+    const timingIndex = block.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) {
+      issues.push({ line: blockStart + 1, message: 'Cue has no timing line and was skipped.' });
+      continue;
+    }
+    if (format === 'srt' && timingIndex === 1 && !/^\d+$/.test(block[0].trim())) {
+      issues.push({ line: blockStart + 1, message: `Expected a cue number, found "${block[0].trim()}".` });
+    }
+
+    const timingLine = blockStart + timingIndex + 1;
+    const timing = block[timingIndex].match(TIMING_LINE);
+    const start = timing ? parseClock(timing[1]) : null;
+    const end = timing ? parseClock(timing[2]) : null;
+    if (start === null || end === null) {
+      issues.push({ line: timingLine, message: `Could not read timing "${block[timingIndex].trim()}"; cue skipped.` });
+      continue;
+    }
+
+    const text = block.slice(timingIndex + 1).join('\n');
+    if (!text.trim()) {
+      issues.push({ line: timingLine, message: 'Cue has no text and was skipped.' });
+      continue;
+    }
+    if (end < start) {
+      issues.push({ line: timingLine, message: 'Cue ends before it starts; times were swapped.' });
+    }
+
+    const startSec = Math.min(start, end);
+    const endSec = Math.max(start, end);
+    segments.push({
+      ...parseCueText(text),
+      startSec,
+      endSec,
+      timestamp: formatTimestampRange(startSec, endSec),
+    });
+  }
+
+  return { response: { summary: '', segments }, issues };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Carries over what an export holds besides the segments and summary, which
+ * the validator does not read: speaker colours, the translation language,
+ * the analysis and the redaction review.
+ */
+const withExportedFields = (raw: unknown, response: TranscriptionResponse): TranscriptionResponse => {
+  if (!isRecord(raw)) return response;
+  const next = { ...response };
+  if (isRecord(raw.speakerColors)) {
+    next.speakerColors = Object.fromEntries(
+      Object.entries(raw.speakerColors).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    );
+  }
+  if (typeof raw.translationLanguage === 'string') next.translationLanguage = raw.translationLanguage;
+  const { analysis, redaction } = raw;
+  if (isRecord(analysis) && ['actionItems', 'decisions', 'chapters', 'tags'].every(key => Array.isArray(analysis[key]))) {
+    next.analysis = analysis as unknown as TranscriptAnalysis;
+  }
+  if (isRecord(redaction) && Array.isArray(redaction.matches)) next.redaction = redaction as unknown as RedactionReview;
+  return next;
+};
+
+/**
+ * Reads an EchoScript JSON export, or a bare TranscriptionResponse object.
+ * Emotion is optional here: exports made with it turned off have none.
+ */
+const parseEchoScriptJson = (text: string): ImportResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    const position = (e as Error).message.match(/position (\d+)/);
+    const line = position ? text.slice(0, parseInt(position[1], 10)).split('\n').length : undefined;
+    return { response: { summary: '', segments: [] }, issues: [{ line, message: `Invalid JSON: ${(e as Error).message}` }] };
+  }
+
+  const envelope = raw as { format?: unknown; transcript?: unknown };
+  const transcript = envelope && envelope.format === ECHOSCRIPT_JSON_FORMAT ? envelope.transcript : raw;
+
+  try {
+    const response = withExportedFields(transcript, validateTranscription(transcript, { expectEmotion: false }));
+    const issues = response.segments.flatMap((segment, index) =>
+      (segment.warnings ?? []).map(message => ({ message: `Segment ${index + 1}: ${message}` }))
+    );
+    return { response, issues: [...(response.warnings ?? []).map(message => ({ message })), ...issues] };
+  } catch (error) {
+    if (!(error instanceof TranscriptionValidationError)) throw error;
+    return {
+      response: { summary: '', segments: [] },
+      issues: [error.message, ...error.issues].map(message => ({ message })),
+    };
+  }
+};
+
+export const detectImportFormat = (fileName: string, text: string): ImportFormat | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'srt' || extension === 'vtt' || extension === 'json') return extension;
+  const head = text.trimStart();
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (head.startsWith('{')) return 'json';
+  if (/^\d+\s*\r?\n.*-->/.test(head)) return 'srt';
+  return null;
+};
+
+export const parseTranscript = (text: string, format: ImportFormat): ImportResult =>
+  format === 'json' ? parseEchoScriptJson(text) : parseCues(text, format);
+
+/**
+ * Reads a transcript or subtitle file into a TranscriptionResponse.
+ */
+export const importTranscriptFile = async (file: File): Promise<ImportResult> => {
+  const text = await file.text();
+  const format = detectImportFormat(file.name, text);
+  if (!format) {
+    return {
+      response: { summary: '', segments: [] },
+      issues: [{ message: 'Unrecognized file type. Use an SRT, VTT or EchoScript JSON file.' }],
+    };
+  }
+  return parseTranscript(text, format);
+};
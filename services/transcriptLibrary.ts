@@ -0,0 +1,208 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BatchJob, TranscriptionResponse } from '../types';
+import { createId } from '../utils/id';
+
+const DB_NAME = 'echoscript';
+const DB_VERSION = 3;
+const ENTRY_STORE = 'entries';
+// Audio lives in its own store so listing the library never loads blobs,
+// and evicting audio leaves the transcript untouched.
+const AUDIO_STORE = 'audio';
+// Recordings made in the extension's background document wait here until
+// the side panel picks them up.
+const PENDING_STORE = 'pending';
+const PENDING_KEY = 'tab-capture';
+// Batch jobs keep their source file so a refresh does not lose the queue.
+const JOB_STORE = 'jobs';
+
+export interface LibraryEntry {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  durationSec: number;
+  sourceFileName?: string;
+  mimeType?: string;
+  /** Size of the stored audio in bytes; 0 once evicted or when there was none. */
+  audioSize: number;
+  /** The transcript as last edited. */
+  transcript: TranscriptionResponse;
+  /** The transcript as first produced, before any edits. */
+  original: TranscriptionResponse;
+}
+
+export interface StorageUsage {
+  /** Bytes used by this origin, when the browser reports it. */
+  usage?: number;
+  quota?: number;
+  audioBytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRY_STORE)) db.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) db.createObjectStore(AUDIO_STORE);
+        if (!db.objectStoreNames.contains(PENDING_STORE)) db.createObjectStore(PENDING_STORE);
+        if (!db.objectStoreNames.contains(JOB_STORE)) db.createObjectStore(JOB_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs `work` in one transaction and resolves once it commits.
+ */
+const withTransaction = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T>
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await work(tx);
+  await done;
+  return result;
+};
+
+export const listEntries = async (): Promise<LibraryEntry[]> => {
+  const entries = await withTransaction([ENTRY_STORE], 'readonly', tx =>
+    promisify(tx.objectStore(ENTRY_STORE).getAll() as IDBRequest<LibraryEntry[]>)
+  );
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getEntry = (id: string): Promise<LibraryEntry | undefined> =>
+  withTransaction([ENTRY_STORE], 'readonly', tx =>
+    promisify(tx.objectStore(ENTRY_STORE).get(id) as IDBRequest<LibraryEntry | undefined>)
+  );
+
+export const getAudio = (id: string): Promise<Blob | undefined> =>
+  withTransaction([AUDIO_STORE], 'readonly', tx =>
+    promisify(tx.objectStore(AUDIO_STORE).get(id) as IDBRequest<Blob | undefined>)
+  );
+
+export interface NewEntry {
+  title: string;
+  transcript: TranscriptionResponse;
+  durationSec: number;
+  sourceFileName?: string;
+  audio?: Blob | null;
+}
+
+export const createEntry = async ({ title, transcript, durationSec, sourceFileName, audio }: NewEntry): Promise<LibraryEntry> => {
+  const now = Date.now();
+  const entry: LibraryEntry = {
+    id: createId(),
+    title,
+    createdAt: now,
+    updatedAt: now,
+    durationSec,
+    sourceFileName,
+    mimeType: audio?.type,
+    audioSize: audio?.size ?? 0,
+    transcript,
+    original: transcript,
+  };
+  await withTransaction([ENTRY_STORE, AUDIO_STORE], 'readwrite', async tx => {
+    tx.objectStore(ENTRY_STORE).put(entry);
+    if (audio) tx.objectStore(AUDIO_STORE).put(audio, entry.id);
+  });
+  return entry;
+};
+
+export const updateEntry = (
+  id: string,
+  patch: Partial<Pick<LibraryEntry, 'title' | 'transcript'>>
+): Promise<LibraryEntry | undefined> =>
+  withTransaction([ENTRY_STORE], 'readwrite', async tx => {
+    const store = tx.objectStore(ENTRY_STORE);
+    const entry = await promisify(store.get(id) as IDBRequest<LibraryEntry | undefined>);
+    if (!entry) return undefined;
+    const next = { ...entry, ...patch, updatedAt: Date.now() };
+    store.put(next);
+    return next;
+  });
+
+export const deleteEntry = (id: string): Promise<void> =>
+  withTransaction([ENTRY_STORE, AUDIO_STORE], 'readwrite', async tx => {
+    tx.objectStore(ENTRY_STORE).delete(id);
+    tx.objectStore(AUDIO_STORE).delete(id);
+  });
+
+/**
+ * Drops an entry's audio to free space while keeping the transcript.
+ */
+export const evictAudio = (id: string): Promise<void> =>
+  withTransaction([ENTRY_STORE, AUDIO_STORE], 'readwrite', async tx => {
+    const store = tx.objectStore(ENTRY_STORE);
+    const entry = await promisify(store.get(id) as IDBRequest<LibraryEntry | undefined>);
+    tx.objectStore(AUDIO_STORE).delete(id);
+    if (entry) store.put({ ...entry, audioSize: 0 });
+  });
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const entries = await listEntries();
+  const audioBytes = entries.reduce((total, entry) => total + entry.audioSize, 0);
+  const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : {};
+  return { usage: estimate.usage, quota: estimate.quota, audioBytes };
+};
+
+export const savePendingCapture = (audio: Blob): Promise<void> =>
+  withTransaction([PENDING_STORE], 'readwrite', async tx => {
+    tx.objectStore(PENDING_STORE).put(audio, PENDING_KEY);
+  });
+
+/**
+ * Returns the waiting background recording, if any, and removes it.
+ */
+export const takePendingCapture = (): Promise<Blob | undefined> =>
+  withTransaction([PENDING_STORE], 'readwrite', async tx => {
+    const store = tx.objectStore(PENDING_STORE);
+    const audio = await promisify(store.get(PENDING_KEY) as IDBRequest<Blob | undefined>);
+    store.delete(PENDING_KEY);
+    return audio;
+  });
+
+export const listJobs = async (): Promise<BatchJob[]> => {
+  const jobs = await withTransaction([JOB_STORE], 'readonly', tx =>
+    promisify(tx.objectStore(JOB_STORE).getAll() as IDBRequest<BatchJob[]>)
+  );
+  return jobs.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveJob = ({ progress: _progress, ...job }: BatchJob): Promise<void> =>
+  withTransaction([JOB_STORE], 'readwrite', async tx => {
+    tx.objectStore(JOB_STORE).put(job);
+  });
+
+export const deleteJob = (id: string): Promise<void> =>
+  withTransaction([JOB_STORE], 'readwrite', async tx => {
+    tx.objectStore(JOB_STORE).delete(id);
+  });
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { TranscriptionResponse, TranscriptionSegment, Emotion } from '../types';
+import { EMOTIONS } from './emotions';
+
+export type SearchField = 'content' | 'translation';
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface SearchHit extends TextRange {
+  segmentIndex: number;
+  field: SearchField;
+}
+
+export interface SearchFilters {
+  query: string;
+  /** Empty facet lists mean "any". */
+  speakers: string[];
+  languages: string[];
+  emotions: Emotion[];
+  fromSec: number | null;
+  toSec: number | null;
+}
+
+export const EMPTY_FILTERS: SearchFilters = {
+  query: '',
+  speakers: [],
+  languages: [],
+  emotions: [],
+  fromSec: null,
+  toSec: null,
+};
+
+export interface SearchFacets {
+  speakers: string[];
+  languages: string[];
+  emotions: Emotion[];
+}
+
+export interface SearchResult {
+  /** Indices into `segments` of the segments that pass every filter. */
+  visible: number[];
+  /** Query matches within the visible segments, in reading order. */
+  hits: SearchHit[];
+}
+
+const SEARCH_FIELDS: SearchField[] = ['content', 'translation'];
+
+/**
+ * Finds every case-insensitive occurrence of `query` in `text`.
+ */
+export const findMatches = (text: string, query: string): TextRange[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const haystack = text.toLowerCase();
+  const ranges: TextRange[] = [];
+  let from = haystack.indexOf(needle);
+  while (from !== -1) {
+    ranges.push({ start: from, end: from + needle.length });
+    from = haystack.indexOf(needle, from + needle.length);
+  }
+  return ranges;
+};
+
+export const hasActiveFilters = (filters: SearchFilters) =>
+  filters.query.trim() !== '' ||
+  filters.speakers.length > 0 ||
+  filters.languages.length > 0 ||
+  filters.emotions.length > 0 ||
+  filters.fromSec !== null ||
+  filters.toSec !== null;
+
+const unique = <T>(values: T[]) => Array.from(new Set(values));
+
+export const listFacets = (response: TranscriptionResponse): SearchFacets => ({
+  speakers: unique(response.segments.map(segment => segment.speaker)),
+  languages: unique(response.segments.map(segment => segment.language)).filter(Boolean),
+  // Taxonomy order first, then labels no longer in it.
+  emotions: unique([
+    ...EMOTIONS.map(emotion => emotion.label),
+    ...response.segments.map(segment => segment.emotion),
+  ]).filter(emotion => !!emotion && response.segments.some(segment => segment.emotion === emotion)),
+});
+
+const passesFacets = (segment: TranscriptionSegment, filters: SearchFilters) =>
+  (filters.speakers.length === 0 || filters.speakers.includes(segment.speaker)) &&
+  (filters.languages.length === 0 || filters.languages.includes(segment.language)) &&
+  (filters.emotions.length === 0 || (!!segment.emotion && filters.emotions.includes(segment.emotion))) &&
+  // A segment is in range if any part of it overlaps the window.
+  (filters.fromSec === null || segment.endSec >= filters.fromSec) &&
+  (filters.toSec === null || segment.startSec <= filters.toSec);
+
+/**
+ * Applies the facet filters and text query. With a query, only segments
+ * whose content or translation contain it stay visible.
+ */
+export const searchTranscript = (response: TranscriptionResponse, filters: SearchFilters): SearchResult => {
+  const visible: number[] = [];
+  const hits: SearchHit[] = [];
+  const hasQuery = filters.query.trim() !== '';
+
+  response.segments.forEach((segment, segmentIndex) => {
+    if (!passesFacets(segment, filters)) return;
+    const segmentHits = SEARCH_FIELDS.flatMap(field =>
+      findMatches(segment[field] ?? '', filters.query).map(range => ({ ...range, segmentIndex, field }))
+    );
+    if (hasQuery && segmentHits.length === 0) return;
+    visible.push(segmentIndex);
+    hits.push(...segmentHits);
+  });
+
+  return { visible, hits };
+};
+
+/**
+ * Toggles `value` in a facet list.
+ */
+export const toggleFacet = <T>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { OutputField, TranscriptionRequest, TranscriptStyle } from '../types';
+import { DEFAULT_TRANSCRIPTION_REQUEST, OUTPUT_FIELDS } from './transcriptionSettings';
+import { normalizeEmotionSet } from './emotions';
+import { createId } from '../utils/id';
+
+const STORAGE_KEY = 'echoscript.presets';
+
+/** Identifies EchoScript preset files so they can be imported again. */
+export const PRESETS_JSON_FORMAT = 'echoscript-presets';
+export const PRESETS_JSON_VERSION = 1;
+
+/**
+ * A named bundle of transcription choices for one kind of recording.
+ */
+export interface TranscriptionPreset {
+  id: string;
+  name: string;
+  request: TranscriptionRequest;
+  /** Shipped with the app; cannot be overwritten or deleted. */
+  builtIn?: boolean;
+}
+
+export const BUILT_IN_PRESETS: TranscriptionPreset[] = [
+  {
+    id: 'builtin-sales-call',
+    name: 'Sales call',
+    builtIn: true,
+    request: {
+      ...DEFAULT_TRANSCRIPTION_REQUEST,
+      speakerCount: 2,
+      style: 'clean',
+      fields: ['summary', 'emotion', 'sentiment'],
+      emotions: ['Happy', 'Excited', 'Neutral', 'Confused', 'Frustrated', 'Angry'],
+      instructions: 'A sales call between a sales representative and a prospect. Label the representative "Sales" and the customer "Customer" when names are not given. Keep prices, dates and next steps exact.',
+    },
+  },
+  {
+    id: 'builtin-lecture',
+    name: 'Lecture',
+    builtIn: true,
+    request: {
+      ...DEFAULT_TRANSCRIPTION_REQUEST,
+      style: 'clean',
+      instructions: 'A lecture with one main speaker and occasional audience questions. Label the lecturer "Lecturer" and anyone else "Audience". Keep technical terms, formulas and references exact.',
+      fields: ['summary'],
+    },
+  },
+  {
+    id: 'builtin-podcast-interview',
+    name: 'Podcast interview',
+    builtIn: true,
+    request: {
+      ...DEFAULT_TRANSCRIPTION_REQUEST,
+      speakerCount: 2,
+      instructions: 'A podcast interview between a host and a guest. Use their names once they introduce themselves. Skip intro and outro music.',
+    },
+  },
+];
+
+/**
+ * Raised when a presets file cannot be read, with a message meant for the user.
+ */
+export class PresetImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetImportError';
+  }
+}
+
+const sameList = (a: string[], b: string[]) => a.length === b.length && a.every((item, i) => item === b[i]);
+
+const sameRequest = (a: TranscriptionRequest, b: TranscriptionRequest) =>
+  a.targetLanguage === b.targetLanguage &&
+  a.speakerCount === b.speakerCount &&
+  a.style === b.style &&
+  a.instructions === b.instructions &&
+  sameList(a.speakerNames, b.speakerNames) &&
+  sameList(a.vocabulary, b.vocabulary) &&
+  sameList([...a.fields].sort(), [...b.fields].sort()) &&
+  sameList([...a.emotions].sort(), [...b.emotions].sort());
+
+/**
+ * The preset whose choices match `request` exactly, if any.
+ */
+export const findMatchingPreset = (presets: TranscriptionPreset[], request: TranscriptionRequest) =>
+  presets.find(preset => sameRequest(preset.request, request));
+
+export const loadCustomPresets = (): TranscriptionPreset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const presets: TranscriptionPreset[] = stored ? JSON.parse(stored) : [];
+    // Presets saved before a setting existed pick up its default.
+    return presets.map(preset => ({
+      ...preset,
+      request: { ...DEFAULT_TRANSCRIPTION_REQUEST, ...preset.request, emotions: normalizeEmotionSet(preset.request.emotions) },
+    }));
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomPresets = (presets: TranscriptionPreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+/**
+ * Adds `incoming` to `presets`; a preset with the same name as an existing
+ * one replaces it.
+ */
+export const upsertPresets = (presets: TranscriptionPreset[], incoming: TranscriptionPreset[]): TranscriptionPreset[] => {
+  const byName = new Map(incoming.map(preset => [preset.name.toLowerCase(), preset]));
+  const kept = presets.map(preset => byName.get(preset.name.toLowerCase()) ?? preset);
+  const added = incoming.filter(preset => !presets.some(p => p.name.toLowerCase() === preset.name.toLowerCase()));
+  return [...kept, ...added];
+};
+
+export const createPreset = (name: string, request: TranscriptionRequest): TranscriptionPreset =>
+  ({ id: createId(), name: name.trim(), request });
+
+export const serializePresets = (presets: TranscriptionPreset[]): string =>
+  JSON.stringify(
+    {
+      format: PRESETS_JSON_FORMAT,
+      version: PRESETS_JSON_VERSION,
+      exportedAt: new Date().toISOString(),
+      presets: presets.map(({ name, request }) => ({ name, request })),
+    },
+    null,
+    2
+  );
+
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string').map(item => item.trim()).filter(Boolean) : [];
+
+/**
+ * Reads one preset from a file, filling gaps from the defaults. Returns
+ * null when it has no name.
+ */
+const readPreset = (raw: unknown): TranscriptionPreset | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const { name, request } = raw as { name?: unknown; request?: Record<string, unknown> };
+  if (typeof name !== 'string' || !name.trim()) return null;
+
+  const source = request && typeof request === 'object' ? request : {};
+  const defaults = DEFAULT_TRANSCRIPTION_REQUEST;
+  const style: TranscriptStyle = source.style === 'clean' || source.style === 'verbatim' ? source.style : defaults.style;
+  const validFields = OUTPUT_FIELDS.map(field => field.id);
+  const fields = Array.isArray(source.fields)
+    ? source.fields.filter((field): field is OutputField => validFields.includes(field as OutputField))
+    : defaults.fields;
+
+  return createPreset(name, {
+    targetLanguage: typeof source.targetLanguage === 'string' ? source.targetLanguage.trim() : defaults.targetLanguage,
+    speakerCount: typeof source.speakerCount === 'number' && source.speakerCount >= 0 ? Math.round(source.speakerCount) : defaults.speakerCount,
+    speakerNames: asStringList(source.speakerNames),
+    vocabulary: asStringList(source.vocabulary),
+    style,
+    instructions: typeof source.instructions === 'string' ? source.instructions : defaults.instructions,
+    fields,
+    emotions: normalizeEmotionSet(source.emotions),
+  });
+};
+
+/**
+ * Reads an exported presets file. Throws PresetImportError when nothing in
+ * it can be used.
+ */
+export const parsePresets = (text: string): TranscriptionPreset[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new PresetImportError(`The file is not valid JSON: ${(e as Error).message}`);
+  }
+
+  const envelope = raw as { format?: unknown; presets?: unknown };
+  const list = Array.isArray(raw) ? raw : envelope && envelope.format === PRESETS_JSON_FORMAT ? envelope.presets : null;
+  if (!Array.isArray(list)) {
+    throw new PresetImportError('The file does not contain EchoScript presets.');
+  }
+
+  const presets = list.map(readPreset).filter((preset): preset is TranscriptionPreset => preset !== null);
+  if (presets.length === 0) {
+    throw new PresetImportError('None of the presets in the file had a name.');
+  }
+  return presets;
+};
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { OutputField, TranscriptionRequest } from '../types';
+import { DEFAULT_EMOTION_SET, normalizeEmotionSet } from './emotions';
+
+const SETTINGS_KEY = 'echoscript.transcription';
+
+export const DEFAULT_TRANSCRIPTION_REQUEST: TranscriptionRequest = {
+  targetLanguage: 'English',
+  speakerCount: 0,
+  speakerNames: [],
+  vocabulary: [],
+  style: 'verbatim',
+  instructions: '',
+  fields: ['summary', 'emotion'],
+  emotions: DEFAULT_EMOTION_SET,
+};
+
+export const OUTPUT_FIELDS: { id: OutputField; label: string }[] = [
+  { id: 'summary', label: 'Summary' },
+  { id: 'emotion', label: 'Emotion' },
+  { id: 'sentiment', label: 'Sentiment score' },
+  { id: 'words', label: 'Word timings' },
+];
+
+export interface TranscriptionSettings extends TranscriptionRequest {
+  /** Empty uses the provider's default model. */
+  model: string;
+  /** Null uses the model's default temperature. */
+  temperature: number | null;
+}
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  ...DEFAULT_TRANSCRIPTION_REQUEST,
+  model: '',
+  temperature: null,
+};
+
+export const TARGET_LANGUAGES = [
+  'English', 'Spanish', 'French', 'German', 'Italian', 'Portuguese', 'Dutch', 'Russian',
+  'Arabic', 'Hindi', 'Chinese', 'Japanese', 'Korean',
+];
+
+export const MAX_TEMPERATURE = 2;
+
+/**
+ * Splits a comma- or newline-separated list as typed into a text field.
+ */
+export const parseList = (text: string): string[] =>
+  text.split(/[\n,]/).map(item => item.trim()).filter(Boolean);
+
+export const toRequest = (
+  { targetLanguage, speakerCount, speakerNames, vocabulary, style, instructions, fields, emotions }: TranscriptionSettings
+): TranscriptionRequest => ({ targetLanguage, speakerCount, speakerNames, vocabulary, style, instructions, fields, emotions });
+
+export const loadTranscriptionSettings = (): TranscriptionSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return DEFAULT_TRANSCRIPTION_SETTINGS;
+    const settings: TranscriptionSettings = { ...DEFAULT_TRANSCRIPTION_SETTINGS, ...JSON.parse(stored) };
+    // Labels removed from the taxonomy since the settings were saved are dropped.
+    return { ...settings, emotions: normalizeEmotionSet(settings.emotions) };
+  } catch {
+    return DEFAULT_TRANSCRIPTION_SETTINGS;
+  }
+};
+
+export const saveTranscriptionSettings = (settings: TranscriptionSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,228 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { TranscriptionResponse, TranscriptionSegment, WordTiming } from '../types';
+import { DEFAULT_EMOTION, matchEmotion } from './emotions';
+import { parseTimestampRange, parseClock, formatTimestampRange, roundMs } from '../utils/time';
+import { checkTimeline, sortByStart } from '../utils/timeline';
+
+/**
+ * Raised when a model reply cannot be turned into a transcript at all, as
+ * opposed to individual segments that can be repaired.
+ */
+export class TranscriptionValidationError extends Error {
+  constructor(message: string, readonly issues: string[] = []) {
+    super(message);
+    this.name = 'TranscriptionValidationError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+/**
+ * Parses a JSON reply, tolerating markdown code fences around it.
+ */
+export const parseModelJson = (text: string): unknown => {
+  const cleanText = text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '').trim();
+  try {
+    return JSON.parse(cleanText);
+  } catch (e) {
+    throw new TranscriptionValidationError('The response was not valid JSON.', [(e as Error).message]);
+  }
+};
+
+/**
+ * Reads a score, clamping it to [min, max]. Anything that is not a number
+ * gives undefined.
+ */
+const asScore = (value: unknown, min: number, max: number): number | undefined => {
+  const n = typeof value === 'number' ? value : parseFloat(asString(value));
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : undefined;
+};
+
+/** Reads a time given in seconds or as a clock string such as "01:05.250". */
+const asSeconds = (value: unknown): number | null =>
+  typeof value === 'number' ? (Number.isFinite(value) ? value : null) : parseClock(asString(value));
+
+/**
+ * Reads word timings and keeps them inside the segment. An incomplete list
+ * is worse than none for highlighting, so any word without usable times
+ * drops the whole list.
+ */
+const readWords = (raw: unknown, start: number, end: number, warnings: string[]): WordTiming[] | undefined => {
+  if (!Array.isArray(raw) || raw.length === 0) return undefined;
+
+  const words: WordTiming[] = [];
+  for (const item of raw) {
+    if (!isRecord(item)) continue;
+    const text = asString(item.text ?? item.word);
+    if (!text) continue;
+    const wordStart = asSeconds(item.startSec ?? item.start);
+    const wordEnd = asSeconds(item.endSec ?? item.end);
+    if (wordStart === null || wordEnd === null) {
+      warnings.push('Word timings were incomplete and were dropped.');
+      return undefined;
+    }
+    const clamp = (sec: number) => roundMs(Math.min(end, Math.max(start, sec)));
+    const word: WordTiming = { text, startSec: clamp(Math.min(wordStart, wordEnd)), endSec: clamp(Math.max(wordStart, wordEnd)) };
+    const confidence = asScore(item.confidence, 0, 1);
+    if (confidence !== undefined) word.confidence = confidence;
+    words.push(word);
+  }
+  return words.length > 0 ? words.sort((a, b) => a.startSec - b.startSec) : undefined;
+};
+
+/**
+ * Maps the many ways a model spells a generic label ("speaker_1", "SPK 1",
+ * "Speaker1") onto "Speaker 1". Real names are only trimmed.
+ */
+export const normalizeSpeaker = (value: unknown): string => {
+  const text = asString(value).replace(/\s+/g, ' ');
+  if (!text) return 'Unknown Speaker';
+  const generic = text.match(/^(?:speaker|spk|spkr)[\s_-]*(\d+)$/i);
+  return generic ? `Speaker ${parseInt(generic[1], 10)}` : text;
+};
+
+interface SegmentResult {
+  segment: TranscriptionSegment | null;
+  warnings: string[];
+  end: number;
+}
+
+export interface ValidationOptions {
+  /** Whether segments should carry an emotion; when false a missing one is not a problem. Defaults to true. */
+  expectEmotion?: boolean;
+}
+
+const validateSegment = (raw: unknown, index: number, previousEnd: number, expectEmotion: boolean): SegmentResult => {
+  const label = `Segment ${index + 1}`;
+  if (!isRecord(raw)) {
+    return { segment: null, warnings: [`${label} was not an object and was dropped.`], end: previousEnd };
+  }
+
+  const warnings: string[] = [];
+  const content = asString(raw.content);
+  if (!content) {
+    return { segment: null, warnings: [`${label} had no content and was dropped.`], end: previousEnd };
+  }
+
+  const speaker = normalizeSpeaker(raw.speaker);
+  if (speaker !== asString(raw.speaker)) {
+    warnings.push(`Speaker label "${asString(raw.speaker)}" was normalized to "${speaker}".`);
+  }
+
+  // Exported transcripts carry exact times; model replies only the string.
+  const rawTimestamp = asString(raw.timestamp);
+  const hasSeconds = typeof raw.startSec === 'number' && typeof raw.endSec === 'number';
+  const range = hasSeconds
+    ? { start: roundMs(raw.startSec as number), end: roundMs(raw.endSec as number) }
+    : parseTimestampRange(rawTimestamp);
+  let start = range?.start ?? previousEnd;
+  let end = range?.end ?? start;
+  const reversed = end < start;
+  if (reversed) [start, end] = [end, start];
+  const timestamp = formatTimestampRange(start, end);
+  if (!range) {
+    warnings.push(`Timestamp "${rawTimestamp}" could not be read; placed after the previous segment.`);
+  } else if (reversed) {
+    warnings.push(`Timestamp "${rawTimestamp}" had its start and end reversed.`);
+  } else if (!hasSeconds && timestamp !== rawTimestamp) {
+    warnings.push(`Timestamp "${rawTimestamp}" was reformatted to "${timestamp}".`);
+  }
+
+  // When emotions were not asked for, one the model adds anyway is kept if it is valid.
+  const matchedEmotion = matchEmotion(raw.emotion);
+  const emotion = matchedEmotion ?? (expectEmotion ? DEFAULT_EMOTION : undefined);
+  if (expectEmotion && !asString(raw.emotion)) {
+    warnings.push(`Emotion was missing and set to ${emotion}.`);
+  } else if (expectEmotion && !matchedEmotion) {
+    warnings.push(`Unknown emotion "${asString(raw.emotion)}" was replaced with ${emotion}.`);
+  }
+
+  const language = asString(raw.language) || 'Unknown';
+  if (!asString(raw.language)) warnings.push('Language was missing.');
+
+  const segment: TranscriptionSegment = {
+    speaker,
+    timestamp,
+    startSec: start,
+    endSec: end,
+    content,
+    language,
+  };
+  if (emotion) segment.emotion = emotion;
+  // Model replies use snake_case like language_code; exported transcripts keep the field names.
+  const confidence = asScore(raw.emotion_confidence ?? raw.emotionConfidence, 0, 1);
+  if (matchedEmotion && confidence !== undefined) segment.emotionConfidence = confidence;
+  const sentiment = asScore(raw.sentiment, -1, 1);
+  if (sentiment !== undefined) segment.sentiment = sentiment;
+  const words = readWords(raw.words, start, end, warnings);
+  if (words) segment.words = words;
+  const languageCode = asString(raw.language_code).toLowerCase();
+  if (languageCode) segment.language_code = languageCode;
+  const translation = asString(raw.translation);
+  if (translation) segment.translation = translation;
+  if (warnings.length > 0) segment.warnings = warnings;
+
+  return { segment, warnings, end };
+};
+
+/**
+ * Checks a parsed model reply and repairs what it can. Throws
+ * TranscriptionValidationError when the overall structure is unusable.
+ */
+export const validateTranscription = (raw: unknown, options: ValidationOptions = {}): TranscriptionResponse => {
+  const { expectEmotion = true } = options;
+  if (!isRecord(raw)) {
+    throw new TranscriptionValidationError('The response was not a JSON object.');
+  }
+  if (!Array.isArray(raw.segments)) {
+    throw new TranscriptionValidationError('The response did not contain a "segments" array.');
+  }
+
+  const segments: TranscriptionSegment[] = [];
+  const responseWarnings: string[] = [];
+  let previousEnd = 0;
+  raw.segments.forEach((item, index) => {
+    const result = validateSegment(item, index, previousEnd, expectEmotion);
+    if (result.segment) {
+      segments.push(result.segment);
+      previousEnd = result.end;
+    } else {
+      responseWarnings.push(...result.warnings);
+    }
+  });
+
+  if (segments.length === 0 && raw.segments.length > 0) {
+    throw new TranscriptionValidationError('None of the returned segments were usable.', responseWarnings);
+  }
+
+  const ordered = checkTimeline(segments).some(issue => issue.kind === 'out-of-order')
+    ? sortByStart(segments)
+    : segments;
+  if (ordered !== segments) responseWarnings.push('Segments were out of order and have been sorted by start time.');
+  for (const issue of checkTimeline(ordered)) {
+    const segment = ordered[issue.index];
+    segment.warnings = [...(segment.warnings ?? []), issue.message];
+  }
+
+  const response: TranscriptionResponse = {
+    summary: asString(raw.summary),
+    segments: ordered,
+  };
+  if (responseWarnings.length > 0) response.warnings = responseWarnings;
+  return response;
+};
+
+/**
+ * Counts warnings across the response and its segments.
+ */
+export const countWarnings = (response: TranscriptionResponse): number =>
+  (response.warnings?.length ?? 0) +
+  response.segments.reduce((total, segment) => total + (segment.warnings?.length ?? 0), 0);
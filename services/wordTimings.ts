@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { TranscriptionSegment, WordTiming } from '../types';
+import { formatTimestampRange, roundMs } from '../utils/time';
+
+/** Words the model was less sure of than this are shaded for review. */
+export const LOW_CONFIDENCE = 0.6;
+
+// Subtitle guidelines keep a line to about 42 characters and a cue to a few seconds.
+const MAX_CUE_CHARS = 42;
+const MAX_CUE_SEC = 6;
+
+export const isLowConfidence = (word: WordTiming) => word.confidence !== undefined && word.confidence < LOW_CONFIDENCE;
+
+/**
+ * Moves every word time of a segment through `map`, e.g. to shift a chunk's
+ * words onto the file timeline. End times go through `mapEnd` when given.
+ * Segments without words are returned as is.
+ */
+export const mapWordTimes = <T extends Pick<TranscriptionSegment, 'words'>>(
+  segment: T,
+  map: (sec: number) => number,
+  mapEnd: (sec: number) => number = map
+): T =>
+  segment.words
+    ? { ...segment, words: segment.words.map(word => ({ ...word, startSec: roundMs(map(word.startSec)), endSec: roundMs(mapEnd(word.endSec)) })) }
+    : segment;
+
+/**
+ * Finds the word being spoken at `time`: the last one that has started,
+ * as long as it has not ended. Returns -1 between words.
+ */
+export const findActiveWordIndex = (words: WordTiming[], time: number): number => {
+  for (let i = words.length - 1; i >= 0; i--) {
+    if (words[i].startSec <= time) return time < words[i].endSec ? i : -1;
+  }
+  return -1;
+};
+
+/**
+ * Divides word timings between the two halves of a text split at `offset`,
+ * by counting the words before the cut.
+ */
+export const splitWordsAt = (content: string, words: WordTiming[], offset: number): [WordTiming[], WordTiming[]] => {
+  const count = content.slice(0, offset).match(/\S+/g)?.length ?? 0;
+  return [words.slice(0, count), words.slice(count)];
+};
+
+/**
+ * Breaks a segment into subtitle-sized pieces along its word timings: a new
+ * cue starts after a sentence ends or when the line gets too long. Segments
+ * without words come back whole.
+ */
+export const toWordCues = (segment: TranscriptionSegment): TranscriptionSegment[] => {
+  if (!segment.words || segment.words.length === 0) return [segment];
+
+  const groups: WordTiming[][] = [];
+  let current: WordTiming[] = [];
+  for (const word of segment.words) {
+    const text = [...current, word].map(w => w.text).join(' ');
+    const tooLong = current.length > 0 && (text.length > MAX_CUE_CHARS || word.endSec - current[0].startSec > MAX_CUE_SEC);
+    if (tooLong) {
+      groups.push(current);
+      current = [];
+    }
+    current.push(word);
+    if (/[.?!…]["')\]]?$/.test(word.text)) {
+      groups.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) groups.push(current);
+
+  // Cues carry the original text only; a translation cannot be split by word.
+  const { translation: _translation, ...rest } = segment;
+  return groups.map(group => {
+    const startSec = group[0].startSec;
+    const endSec = group[group.length - 1].endSec;
+    return {
+      ...rest,
+      content: group.map(word => word.text).join(' '),
+      startSec,
+      endSec,
+      timestamp: formatTimestampRange(startSec, endSec),
+      words: group,
+    };
+  });
+};
@@ -3,31 +3,198 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-export enum Emotion {
-  Happy = 'Happy',
-  Sad = 'Sad',
-  Angry = 'Angry',
-  Neutral = 'Neutral'
+/** A label from the emotion taxonomy in services/emotions, e.g. "Frustrated". */
+export type Emotion = string;
+
+/** One word (or short phrase) of a segment with its own timing. */
+export interface WordTiming {
+  text: string;
+  startSec: number;
+  endSec: number;
+  /** How sure the model was of the word, 0–1. */
+  confidence?: number;
 }
 
 export interface TranscriptionSegment {
   speaker: string;
+  /** Display form of the range, e.g. "00:00 - 00:15". Derived from startSec/endSec. */
   timestamp: string;
+  /** Start of the segment in seconds from the beginning of the file, to the millisecond. */
+  startSec: number;
+  endSec: number;
   content: string;
   language: string;
+  language_code?: string;
   translation?: string;
   emotion?: Emotion;
+  /** How sure the model was of `emotion`, 0–1. Cleared when the emotion is edited by hand. */
+  emotionConfidence?: number;
+  /** Overall tone from -1 (very negative) to 1 (very positive). */
+  sentiment?: number;
+  /** Word-level timing, in order, when it was asked for. Dropped when the text is edited. */
+  words?: WordTiming[];
+  /** Problems found and repaired while validating the model's reply. */
+  warnings?: string[];
+  /** Set on live segments that the final pass has not confirmed yet. */
+  provisional?: boolean;
 }
 
 export interface TranscriptionResponse {
   summary: string;
   segments: TranscriptionSegment[];
+  /** Response-level validation problems, such as dropped segments. */
+  warnings?: string[];
+  /** Speaker name to hex colour, pinned so colours survive renames and merges. */
+  speakerColors?: Record<string, string>;
+  /** Language of the translations; empty when none were asked for. Older transcripts were translated to English. */
+  translationLanguage?: string;
+  /** Follow-up analysis, once requested. */
+  analysis?: TranscriptAnalysis;
+  /** Personal data found in the transcript and the reviewer's verdicts. */
+  redaction?: RedactionReview;
+}
+
+/** A task someone took on. `startSec` points at where it came up. */
+export interface ActionItem {
+  task: string;
+  /** Speaker responsible, when one was named or volunteered. */
+  owner?: string;
+  /** Deadline as it was said, e.g. "by Friday". */
+  due?: string;
+  startSec?: number;
+}
+
+export interface Decision {
+  text: string;
+  startSec?: number;
+}
+
+export interface Chapter {
+  title: string;
+  startSec: number;
+  endSec: number;
+}
+
+/** Second-pass results derived from a finished transcript. */
+export interface TranscriptAnalysis {
+  actionItems: ActionItem[];
+  decisions: Decision[];
+  chapters: Chapter[];
+  tags: string[];
+  createdAt: number;
+}
+
+export type PiiKind = 'name' | 'phone' | 'email' | 'card' | 'address';
+
+/**
+ * A stretch of personal data in a segment's text. `start`/`end` are
+ * character offsets into `field`; `text` is kept so hits that no longer line
+ * up after an edit can be recognised and skipped.
+ */
+export interface PiiMatch {
+  id: string;
+  segmentIndex: number;
+  field: 'content' | 'translation';
+  start: number;
+  end: number;
+  text: string;
+  kind: PiiKind;
+  /** Found by the local patterns or by the model. */
+  source: 'pattern' | 'model';
+  /** Pending until a reviewer accepts or rejects it; only accepted hits are redacted. */
+  status: 'pending' | 'accepted' | 'rejected';
+}
+
+export interface RedactionReview {
+  matches: PiiMatch[];
+  createdAt: number;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+/** Verbatim keeps fillers and false starts; clean tidies them away. */
+export type TranscriptStyle = 'verbatim' | 'clean';
+
+/** Parts of the output that can be left out to keep replies focused. */
+export type OutputField = 'summary' | 'emotion' | 'sentiment' | 'words';
+
+/**
+ * What to ask of the model besides the transcript itself. Every provider
+ * receives it; each honours what it can.
+ */
+export interface TranscriptionRequest {
+  /** Language to translate segments into, or empty for no translation. */
+  targetLanguage: string;
+  /** Expected number of speakers; 0 leaves it to the model. */
+  speakerCount: number;
+  /** Names to use as speaker labels. */
+  speakerNames: string[];
+  /** Product names, jargon and spellings to prefer. */
+  vocabulary: string[];
+  style: TranscriptStyle;
+  /** Extra guidance for this kind of recording, added to the prompt. */
+  instructions: string;
+  fields: OutputField[];
+  /** Emotion labels the model may choose from. */
+  emotions: Emotion[];
 }
 
 export type AppStatus = 'idle' | 'recording' | 'processing' | 'success' | 'error';
 
+export type BatchJobStatus = 'queued' | 'processing' | 'success' | 'error' | 'cancelled';
+
+/** One file waiting in, or finished by, the batch queue. */
+export interface BatchJob {
+  id: string;
+  fileName: string;
+  blob: Blob;
+  status: BatchJobStatus;
+  createdAt: number;
+  /** Why the last attempt failed. */
+  error?: string;
+  /** Library entry holding the finished transcript. */
+  entryId?: string;
+  /** Chunks done so far while processing; not persisted. */
+  progress?: TranscriptionProgress;
+}
+
+/** A stretch of an audio file, in seconds from its start. */
+export interface AudioSpan {
+  startSec: number;
+  endSec: number;
+}
+
+/**
+ * A smaller copy of an upload made for transcription: mono, 16 kHz and
+ * optionally cut to selected regions, normalized and trimmed.
+ */
+export interface PreparedAudio {
+  blob: Blob;
+  base64: string;
+  mimeType: string;
+  /** The parts of the original this copy is made of, in order; transcript times are mapped back through them. */
+  spans: AudioSpan[];
+}
+
 export interface AudioData {
   blob: Blob;
   base64: string;
   mimeType: string;
-}
\ No newline at end of file
+  /** Original file name for uploads; recordings have none. */
+  fileName?: string;
+  /** Sent for transcription instead of `blob` when present; `blob` is still used for playback. */
+  prepared?: PreparedAudio;
+}
+
+export interface ChunkContext {
+  part: number;
+  totalParts: number;
+}
+
+export interface TranscriptionProgress {
+  completed: number;
+  total: number;
+}
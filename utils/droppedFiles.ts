@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const readAllEntries = async (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> => {
+  const entries: FileSystemEntry[] = [];
+  // readEntries hands out at most ~100 entries per call and an empty batch at the end.
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const collectEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [file];
+  }
+  if (entry.isDirectory) {
+    const children = await readAllEntries((entry as FileSystemDirectoryEntry).createReader());
+    const nested = await Promise.all(children.map(collectEntry));
+    return nested.flat();
+  }
+  return [];
+};
+
+/**
+ * Lists every file in a drop, descending into dropped folders. Browsers
+ * without directory entries get the top-level files only.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items ?? [])
+    .map(item => (item.kind === 'file' ? item.webkitGetAsEntry?.() : null))
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  const files = await Promise.all(entries.map(collectEntry));
+  return files.flat().sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+};
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Rounds to whole milliseconds, the precision segment times are kept at. */
+export const roundMs = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+/**
+ * Parses a single time value into seconds. Accepts clock values ("05",
+ * "01:05", "1:02:05.250", SRT-style "00:01:05,250") and unit values
+ * ("65s", "1m05s", "1h2m5s"). Returns null when nothing can be read.
+ */
+export const parseClock = (value: string): number | null => {
+  const text = value.trim().replace(',', '.');
+
+  const units = text.match(/^(?:(\d+(?:\.\d+)?)h)?\s*(?:(\d+(?:\.\d+)?)m)?\s*(?:(\d+(?:\.\d+)?)s)?$/i);
+  if (units && (units[1] || units[2] || units[3])) {
+    return roundMs(
+      parseFloat(units[1] ?? '0') * 3600 + parseFloat(units[2] ?? '0') * 60 + parseFloat(units[3] ?? '0')
+    );
+  }
+
+  const parts = text.split(':');
+  if (parts.length === 0 || parts.length > 3) return null;
+
+  let seconds = 0;
+  for (const [i, part] of parts.entries()) {
+    // Only the last component may carry a fraction.
+    const pattern = i === parts.length - 1 ? /^\d+(\.\d+)?$/ : /^\d+$/;
+    if (!pattern.test(part)) return null;
+    seconds = seconds * 60 + parseFloat(part);
+  }
+  return roundMs(seconds);
+};
+
+export interface ClockFormatOptions {
+  /** Append milliseconds, e.g. "01:05.250". */
+  ms?: boolean;
+  /** Always include the hours field. */
+  hours?: boolean;
+}
+
+/**
+ * Formats seconds as MM:SS, switching to HH:MM:SS for an hour or longer.
+ * This is the one formatter used for every time shown in the app.
+ */
+export const formatClock = (totalSeconds: number, options: ClockFormatOptions = {}): string => {
+  const totalMs = Math.max(0, Math.round(totalSeconds * 1000));
+  const safe = Math.floor(totalMs / 1000);
+  const hours = Math.floor(safe / 3600);
+  const mins = Math.floor((safe % 3600) / 60);
+  const secs = safe % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+
+  const clock = hours > 0 || options.hours ? `${pad(hours)}:${pad(mins)}:${pad(secs)}` : `${pad(mins)}:${pad(secs)}`;
+  return options.ms ? `${clock}.${(totalMs % 1000).toString().padStart(3, '0')}` : clock;
+};
+
+/**
+ * Reads a start/end range from whatever the model returned: "00:05 - 00:15",
+ * "0:05-0:15", "[00:05 to 00:15]", "00:05 --> 00:15" or a single "00:05".
+ * A missing end is reported as null.
+ */
+export const parseTimestampRange = (timestamp: string): { start: number; end: number | null } | null => {
+  const tokens = timestamp.match(/\d+(?:[:.,]\d+)*(?:\s*[hms](?:\s*\d+(?:\.\d+)?\s*[ms])*)?/gi);
+  if (!tokens || tokens.length === 0) return null;
+  const start = parseClock(tokens[0].replace(/\s+/g, ''));
+  if (start === null) return null;
+  const end = tokens.length > 1 ? parseClock(tokens[1].replace(/\s+/g, '')) : null;
+  return { start, end };
+};
+
+export const formatTimestampRange = (start: number, end: number): string =>
+  `${formatClock(start)} - ${formatClock(end)}`;
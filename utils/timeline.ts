@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { TranscriptionSegment } from '../types';
+
+export type TimelineIssueKind = 'out-of-order' | 'overlap' | 'zero-length';
+
+export interface TimelineIssue {
+  index: number;
+  kind: TimelineIssueKind;
+  message: string;
+}
+
+// Models round to whole seconds, so small overlaps are expected and ignored.
+const OVERLAP_TOLERANCE_SEC = 1;
+
+/**
+ * Reports segments that start before the previous one, overlap it by more
+ * than the tolerance, or have no duration.
+ */
+export const checkTimeline = (
+  segments: Pick<TranscriptionSegment, 'startSec' | 'endSec'>[],
+  tolerance = OVERLAP_TOLERANCE_SEC
+): TimelineIssue[] => {
+  const issues: TimelineIssue[] = [];
+  segments.forEach((segment, index) => {
+    if (segment.endSec <= segment.startSec) {
+      issues.push({ index, kind: 'zero-length', message: 'Segment has no duration.' });
+    }
+    if (index === 0) return;
+    const previous = segments[index - 1];
+    if (segment.startSec < previous.startSec) {
+      issues.push({ index, kind: 'out-of-order', message: 'Segment starts before the previous segment.' });
+    } else if (previous.endSec - segment.startSec > tolerance) {
+      issues.push({
+        index,
+        kind: 'overlap',
+        message: `Segment overlaps the previous one by ${(previous.endSec - segment.startSec).toFixed(1)}s.`,
+      });
+    }
+  });
+  return issues;
+};
+
+/**
+ * Returns the segments sorted by start time; ties keep their original order.
+ */
+export const sortByStart = <T extends Pick<TranscriptionSegment, 'startSec'>>(segments: T[]): T[] =>
+  [...segments].sort((a, b) => a.startSec - b.startSec);
+
+export const segmentDuration = (segment: Pick<TranscriptionSegment, 'startSec' | 'endSec'>): number =>
+  Math.max(0, segment.endSec - segment.startSec);
+
+/**
+ * Finds the segment playing at `time`: the last one that has started and
+ * not yet ended. Returns -1 in gaps between segments.
+ */
+export const findActiveSegmentIndex = (
+  segments: Pick<TranscriptionSegment, 'startSec' | 'endSec'>[],
+  time: number
+): number => {
+  for (let i = segments.length - 1; i >= 0; i--) {
+    if (segments[i].startSec <= time) return time < segments[i].endSec ? i : -1;
+  }
+  return -1;
+};
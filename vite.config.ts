@@ -1,23 +1,48 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from '@tailwindcss/vite';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // `vite build --mode extension` produces the unpacked Chrome extension.
+    const isExtension = mode === 'extension';
+    // The extension reads the API key from chrome.storage instead.
+    const apiKey = isExtension ? undefined : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: isExtension ? [react(), tailwindcss()] : [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey) ?? 'undefined',
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey) ?? 'undefined',
+        'process.env.TRANSCRIPTION_PROVIDER': JSON.stringify(env.TRANSCRIPTION_PROVIDER),
+        'process.env.LIVE_TRANSCRIPTION_URL': JSON.stringify(env.LIVE_TRANSCRIPTION_URL)
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
-      }
+      },
+      ...(isExtension && {
+        publicDir: 'extension/public',
+        build: {
+          outDir: 'dist-extension',
+          rollupOptions: {
+            input: {
+              sidepanel: path.resolve(__dirname, 'extension/sidepanel.html'),
+              offscreen: path.resolve(__dirname, 'extension/offscreen.html'),
+              background: path.resolve(__dirname, 'extension/background.ts'),
+            },
+            output: {
+              // The manifest points at a fixed service worker path.
+              entryFileNames: (chunk: { name: string }) =>
+                chunk.name === 'background' ? 'background.js' : 'assets/[name]-[hash].js',
+            },
+          },
+        },
+      }),
     };
 });